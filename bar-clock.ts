@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Bars of a deck's stream against the audio clock. It counts from where
+ * playback started, moves along when the stream is pushed back by an
+ * under-run, and keeps its place across tempo changes. Assumes 4/4, so a bar
+ * is four beats.
+ */
+class BarClock {
+  private anchorTime = 0; // Audio clock time of `anchorBars`.
+  private anchorBars = 0;
+  private running = false;
+
+  constructor(private bpm: number) {}
+
+  /** Whether playback has started since the last `stop`. */
+  get isRunning() {
+    return this.running;
+  }
+
+  /** Starts counting from bar 0 at `time`. */
+  start(time: number, bpm: number) {
+    this.anchorTime = time;
+    this.anchorBars = 0;
+    this.bpm = bpm;
+    this.running = true;
+  }
+
+  stop() {
+    this.running = false;
+  }
+
+  /** Pushes the grid back by `seconds`, as when the stream restarts after a gap. */
+  shift(seconds: number) {
+    this.anchorTime += seconds;
+  }
+
+  /** Switches tempo from `time` on, without jumping in the bar count. */
+  setTempo(bpm: number, time: number) {
+    if (bpm === this.bpm) return;
+    if (this.running) {
+      this.anchorBars = this.barsAt(time);
+      this.anchorTime = time;
+    }
+    this.bpm = bpm;
+  }
+
+  /** Bars elapsed at audio clock `time`; 0 while stopped. */
+  barsAt(time: number) {
+    if (!this.running) return 0;
+    return this.anchorBars + (time - this.anchorTime) * this.bpm / 240;
+  }
+
+  /** The audio clock time the count reaches `bars`. */
+  timeAt(bars: number) {
+    return this.anchorTime + (bars - this.anchorBars) * 240 / this.bpm;
+  }
+}
+
+export {BarClock};
@@ -0,0 +1,540 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {AudioChunk, LiveMusicGenerationConfig, WeightedPrompt} from '@google/genai';
+import {BarClock} from './bar-clock';
+import {SessionDiagnostics} from './diagnostics';
+import {nextLaunchTime, type LaunchQuantize} from './launch-quantize';
+import {PlaybackScheduler} from './playback-scheduler';
+import type {MusicProvider, MusicProviderSession} from './providers';
+import {StreamTracker} from './stream-tracker';
+import {decode, decodeAudioData, throttle} from './utils';
+import type {WeightTransition} from './weight-transitions';
+
+type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+
+type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+type DeckId = 'A' | 'B';
+
+interface DeckConfig {
+  bpm: number;
+  musicalKey: string;
+  temperature: number;
+  topK: number;
+  guidanceScale: number;
+}
+
+type CrossfadeCurve = 'linear' | 'power' | 'cut';
+
+const CROSSFADE_CURVES: {id: CrossfadeCurve; label: string}[] = [
+  {id: 'linear', label: 'Linear'},
+  {id: 'power', label: 'Constant power'},
+  {id: 'cut', label: 'Cut'},
+];
+
+/** Gains for decks A and B at a crossfader position from 0 (A) to 1 (B). */
+function crossfadeGains(position: number, curve: CrossfadeCurve): [number, number] {
+  const x = Math.max(0, Math.min(1, position));
+  switch (curve) {
+    case 'power':
+      return [Math.cos(x * Math.PI / 2), Math.sin(x * Math.PI / 2)];
+    case 'cut':
+      // Both decks at full volume except right at the ends, for scratch cuts.
+      return [x > 0.95 ? 0 : 1, x < 0.05 ? 0 : 1];
+    default:
+      return [1 - x, x];
+  }
+}
+
+const DEFAULT_DECK_CONFIG: DeckConfig = {
+  bpm: 120,
+  musicalKey: 'C Major',
+  temperature: 0.75,
+  topK: 40,
+  guidanceScale: 7,
+};
+
+/** What a deck needs from the component that owns it. */
+interface DeckHost<P> {
+  getProvider(): MusicProvider;
+  buildWeightedPrompts(deck: Deck<P>): WeightedPrompt[];
+  onFilteredPrompt(deck: Deck<P>, text: string, reason: string): void;
+  /** Called once the deck's audio is heard, after play or an under-run. */
+  onTransportStarted(deck: Deck<P>): void;
+  /** Called after the deck paused or stopped, e.g. to end a recording. */
+  onTransportStopped(deck: Deck<P>): void;
+  notify(deck: Deck<P>, message: string): void;
+  requestUpdate(): void;
+}
+
+/**
+ * One generation channel: a provider session with its own prompts, music
+ * config, reconnect logic and playback scheduler. Its audio comes out of
+ * `output`, which the owner routes into the mix.
+ */
+class Deck<P> {
+  prompts: Map<string, P>;
+  /** Weights gliding toward a target, by prompt id. */
+  readonly weightTransitions = new Map<string, WeightTransition>();
+  config: DeckConfig;
+  playbackState: PlaybackState = 'stopped';
+  connectionStatus: ConnectionStatus = 'connecting';
+  reconnectAttempt = 0;
+  connectionError = true;
+
+  readonly scheduler: PlaybackScheduler; // adaptive buffer against network jitter
+  /** Bars of the stream, for launch quantization and LFOs. */
+  readonly clock: BarClock;
+  readonly streamTracker = new StreamTracker();
+  readonly diagnostics = new SessionDiagnostics();
+  /** The deck's channel into the mix, e.g. for a crossfader. */
+  readonly output: GainNode;
+  private readonly transportGain: GainNode; // fades on play and pause
+
+  private session: MusicProviderSession | null = null;
+  private chunkQueue: Promise<void> = Promise.resolve(); // keeps chunks in order
+  private readonly maxReconnectAttempts = 8;
+  private reconnectTimer: number | null = null;
+  private resumeAfterReconnect = false;
+  private sessionToken = 0; // Lets callbacks from a replaced session be ignored.
+
+  /** Controls with changes waiting for the launch, e.g. a prompt id. */
+  readonly queuedControls = new Set<string>();
+  /** Stream time the queued changes launch at, or null if nothing is queued. */
+  launchAt: number | null = null;
+  private pendingPrompts = false;
+  private pendingConfig = false;
+  private launchTimer: number | null = null;
+  private launchWaiters: (() => void)[] = [];
+
+  constructor(
+    readonly id: DeckId,
+    /** localStorage key the deck's prompts are saved under. */
+    readonly storageKey: string,
+    private readonly context: AudioContext,
+    private readonly host: DeckHost<P>,
+    prompts: Map<string, P>,
+    config: DeckConfig = {...DEFAULT_DECK_CONFIG},
+  ) {
+    this.prompts = prompts;
+    this.config = config;
+    this.transportGain = context.createGain();
+    this.output = context.createGain();
+    this.transportGain.connect(this.output);
+    this.scheduler = new PlaybackScheduler(context, this.transportGain);
+    this.clock = new BarClock(config.bpm);
+  }
+
+  get isActive() {
+    return this.playbackState === 'playing' || this.playbackState === 'loading';
+  }
+
+  get isConnected() {
+    return this.session !== null && !this.connectionError;
+  }
+
+  async connect() {
+    const token = ++this.sessionToken;
+    const provider = this.host.getProvider();
+    this.streamTracker.restart();
+    this.diagnostics.log(`Connecting to ${provider.label}${provider.model ? ` (${provider.model})` : ''}...`);
+    this.session = await provider.connect({
+      onSetupComplete: () => {
+        if (token !== this.sessionToken) return;
+        this.diagnostics.setupComplete();
+        this.connectionError = false;
+        this.connectionStatus = 'connected';
+        this.reconnectAttempt = 0;
+        this.host.requestUpdate();
+      },
+      onFilteredPrompt: (filteredPrompt) => {
+        if (token !== this.sessionToken) return;
+        const text = filteredPrompt.text ?? '';
+        const reason = filteredPrompt.filteredReason ?? '';
+        this.diagnostics.filtered(text, reason);
+        this.host.onFilteredPrompt(this, text, reason);
+      },
+      onAudioChunks: (chunks) => {
+        if (token !== this.sessionToken) return;
+        this.chunkQueue = this.chunkQueue
+          .then(() => this.handleAudioChunks(chunks))
+          .catch((err) => this.diagnostics.log(`Failed to play audio chunk: ${err}`, 'error'));
+      },
+      onError: (e) => {
+        if (token === this.sessionToken) {
+          this.diagnostics.disconnected(`Connection error: ${e.message || 'unknown'}`, 'error');
+        }
+        this.handleConnectionLost(token, 'Connection error');
+      },
+      onClose: (e) => {
+        if (token === this.sessionToken) {
+          this.diagnostics.disconnected(`Connection closed (code ${e.code}${e.reason ? `, ${e.reason}` : ''}).`);
+        }
+        this.handleConnectionLost(token, 'Connection closed');
+      },
+    });
+  }
+
+  /** Closes the session on purpose, so its close event is not a drop. */
+  close() {
+    this.sessionToken++;
+    this.connectionError = true;
+    try {
+      this.session?.close();
+    } catch (e) {
+      this.diagnostics.log(`Closing session failed: ${e.message ?? e}`, 'warn');
+    }
+    this.session = null;
+  }
+
+  /** Connects straight away if the session is down, skipping any backoff. */
+  async ensureConnected() {
+    if (!this.connectionError && this.session) return;
+    this.cancelReconnect();
+    this.connectionStatus = 'connecting';
+    await this.connect();
+    await this.replay();
+  }
+
+  /** Connects, or schedules a reconnect if that fails. */
+  async start() {
+    try {
+      await this.ensureConnected();
+      return true;
+    } catch (e) {
+      this.handleConnectionLost(this.sessionToken, 'Could not connect');
+      return false;
+    }
+  }
+
+  /** Swaps to a newly selected provider, resuming playback if it was on. */
+  async restart() {
+    const wasPlaying = this.isActive;
+    this.close();
+    try {
+      await this.ensureConnected();
+    } catch (e) {
+      this.resumeAfterReconnect = wasPlaying;
+      this.handleConnectionLost(this.sessionToken, `Could not connect to ${this.host.getProvider().label}`);
+      return false;
+    }
+    // Audio already buffered from the old provider plays out first.
+    if (wasPlaying) this.session?.play();
+    return true;
+  }
+
+  /** Re-sends the current config and prompts, e.g. after a reconnect. */
+  async replay() {
+    if (!this.session) return;
+    const musicGenerationConfig = this.buildMusicGenerationConfig();
+    this.diagnostics.sentConfig(musicGenerationConfig);
+    await this.session.setMusicGenerationConfig({musicGenerationConfig});
+    const weightedPrompts = this.host.buildWeightedPrompts(this);
+    this.diagnostics.sentPrompts(weightedPrompts);
+    await this.session.setWeightedPrompts({weightedPrompts});
+  }
+
+  private get canSend() {
+    return this.session !== null &&
+      this.connectionStatus !== 'reconnecting' &&
+      this.connectionStatus !== 'disconnected';
+  }
+
+  sendPrompts = throttle(() => this.pushPrompts(), 200);
+
+  private async pushPrompts() {
+    // Replayed once the session is back.
+    if (!this.canSend) return;
+    try {
+      const weightedPrompts = this.host.buildWeightedPrompts(this);
+      this.diagnostics.sentPrompts(weightedPrompts);
+      await this.session!.setWeightedPrompts({weightedPrompts});
+    } catch (e) {
+      this.diagnostics.log(`setWeightedPrompts failed: ${e.message}`, 'error');
+      this.host.notify(this, e.message);
+      this.pause();
+    }
+  }
+
+  buildMusicGenerationConfig(): LiveMusicGenerationConfig {
+    return {
+        bpm: this.config.bpm,
+        musicalKey: this.config.musicalKey,
+        // The following are experimental parameters and may not be fully supported.
+        // Casting to `any` to bypass strict TypeScript checks.
+        temperature: this.config.temperature,
+        topK: this.config.topK,
+        guidanceScale: this.config.guidanceScale,
+    } as any;
+  }
+
+  sendConfig = throttle(() => this.pushConfig(), 200);
+
+  private async pushConfig() {
+    if (!this.canSend) return;
+    try {
+        const musicGenerationConfig = this.buildMusicGenerationConfig();
+        this.diagnostics.sentConfig(musicGenerationConfig);
+        await this.session!.setMusicGenerationConfig({ musicGenerationConfig });
+        // Audio already buffered keeps the old tempo; the new one starts after it.
+        this.clock.setTempo(this.config.bpm, this.scheduler.nextStartTime || this.context.currentTime);
+    } catch (e) {
+        this.diagnostics.log(`setMusicGenerationConfig failed: ${e.message}`, 'error');
+        this.host.notify(this, e.message);
+    }
+  }
+
+  /**
+   * Sends the prompts now, or at the next launch boundary if launches are
+   * quantized and the deck is playing. `control` is shown as queued.
+   */
+  queuePrompts(quantize: LaunchQuantize, control?: string) {
+    if (!this.holdsForLaunch(quantize)) {
+      this.sendPrompts();
+      return;
+    }
+    this.pendingPrompts = true;
+    if (control) this.queuedControls.add(control);
+    this.scheduleLaunch(quantize);
+  }
+
+  /** Like `queuePrompts`, for the music generation config. */
+  queueConfig(quantize: LaunchQuantize) {
+    if (!this.holdsForLaunch(quantize)) {
+      this.sendConfig();
+      return;
+    }
+    this.pendingConfig = true;
+    this.queuedControls.add('config');
+    this.scheduleLaunch(quantize);
+  }
+
+  /** Sends whatever is queued right away. */
+  launch() {
+    this.clearLaunchTimer();
+    const {pendingPrompts, pendingConfig} = this;
+    this.pendingPrompts = false;
+    this.pendingConfig = false;
+    this.launchAt = null;
+    this.queuedControls.clear();
+    if (pendingConfig) this.pushConfig();
+    if (pendingPrompts) this.pushPrompts();
+    for (const resolve of this.launchWaiters.splice(0)) resolve();
+    this.host.requestUpdate();
+  }
+
+  /** Resolves once the queued changes have been sent. */
+  whenLaunched() {
+    if (this.launchAt === null) return Promise.resolve();
+    return new Promise<void>((resolve) => this.launchWaiters.push(resolve));
+  }
+
+  private holdsForLaunch(quantize: LaunchQuantize) {
+    return quantize !== 'off' && this.playbackState === 'playing' && this.scheduler.nextStartTime > 0;
+  }
+
+  private scheduleLaunch(quantize: LaunchQuantize) {
+    // Later changes join the launch that is already queued.
+    if (this.launchAt !== null) return;
+    this.launchAt = nextLaunchTime(quantize, this.clock, this.scheduler.nextStartTime);
+    this.diagnostics.log(`Changes queued for ${this.launchAt.toFixed(2)}s.`);
+    this.setLaunchTimer();
+    this.host.requestUpdate();
+  }
+
+  /**
+   * Audio up to `nextStartTime` has been generated already, so changes go
+   * out as soon as the scheduled audio reaches the boundary, and are heard
+   * from the boundary on. That is checked as chunks arrive; the timer only
+   * fires at the boundary itself if the stream stalls before it.
+   */
+  private setLaunchTimer() {
+    this.clearLaunchTimer();
+    if (this.launchAt === null) return;
+    const delay = Math.max(0, this.launchAt - this.context.currentTime) * 1000;
+    this.launchTimer = window.setTimeout(() => this.launch(), delay);
+  }
+
+  private clearLaunchTimer() {
+    if (this.launchTimer !== null) {
+      clearTimeout(this.launchTimer);
+      this.launchTimer = null;
+    }
+  }
+
+  play() {
+    this.context.resume();
+    this.session?.play();
+    this.playbackState = 'loading';
+    const now = this.context.currentTime;
+    this.transportGain.gain.cancelScheduledValues(now);
+    this.transportGain.gain.setValueAtTime(0, now);
+    this.transportGain.gain.linearRampToValueAtTime(1, now + 0.1);
+    this.host.requestUpdate();
+  }
+
+  pause() {
+    if (this.launchAt !== null) this.launch();
+    this.resumeAfterReconnect = false;
+    this.session?.pause();
+    this.playbackState = 'paused';
+    const now = this.context.currentTime;
+    this.transportGain.gain.cancelScheduledValues(now);
+    this.transportGain.gain.setValueAtTime(1, now);
+    this.transportGain.gain.linearRampToValueAtTime(0, now + 0.1);
+    this.scheduler.reset(now + 0.1);
+    this.clock.stop();
+    this.host.onTransportStopped(this);
+    this.host.requestUpdate();
+  }
+
+  stop() {
+    if (this.launchAt !== null) this.launch();
+    this.session?.stop();
+    this.playbackState = 'stopped';
+    this.transportGain.gain.cancelScheduledValues(this.context.currentTime);
+    this.transportGain.gain.setValueAtTime(1, this.context.currentTime);
+    this.scheduler.reset();
+    this.clock.stop();
+    this.host.onTransportStopped(this);
+    this.host.requestUpdate();
+  }
+
+  /** Stops playback and closes the session for good. */
+  disconnect() {
+    this.cancelReconnect();
+    this.stop();
+    this.close();
+    this.connectionStatus = 'disconnected';
+  }
+
+  /** Stops, and gives up on any pending reconnect. */
+  abort() {
+    if (this.connectionStatus === 'reconnecting') {
+      this.cancelReconnect();
+      this.connectionStatus = 'disconnected';
+    }
+    this.stop();
+  }
+
+  /** Restarts generation from a clean context with the default config. */
+  resetContext() {
+    this.session?.resetContext();
+    this.session?.setMusicGenerationConfig({
+      musicGenerationConfig: {},
+    });
+  }
+
+  /** Decodes and schedules every chunk of a server message, in order. */
+  private async handleAudioChunks(chunks: AudioChunk[]) {
+    for (const chunk of chunks) {
+      if (!chunk.data) continue;
+      const padding = chunk.data.endsWith('==') ? 2 : chunk.data.endsWith('=') ? 1 : 0;
+      const samples = Math.floor((chunk.data.length * 3 / 4 - padding) / 2 / 2);
+      if (samples === 0) continue;
+      this.diagnostics.chunkReceived();
+      const {sequence} = this.streamTracker.receive(chunk.data, samples);
+      if (
+        this.playbackState === 'paused' ||
+        this.playbackState === 'stopped'
+      ) {
+        this.streamTracker.discarded(samples);
+        continue;
+      }
+      const audioBuffer = await decodeAudioData(
+        decode(chunk.data),
+        this.context,
+        48000,
+        2,
+      );
+      const {primed, late, gap, startTime, startDelay} = this.scheduler.schedule(audioBuffer);
+      if (primed) {
+        this.clock.start(startTime, this.config.bpm);
+      } else if (late) {
+        // The stream is heard `gap` later from here on, and so is any queued launch.
+        this.clock.shift(gap);
+        if (this.launchAt !== null) {
+          this.launchAt += gap;
+          this.setLaunchTimer();
+        }
+      }
+      if (this.launchAt !== null && this.scheduler.nextStartTime >= this.launchAt) this.launch();
+      // Count what actually got scheduled so a bad decode shows up as a mismatch.
+      this.streamTracker.discarded(samples - audioBuffer.length);
+      this.streamTracker.scheduled(audioBuffer.length);
+      if (late) {
+        this.streamTracker.gap(gap);
+        this.diagnostics.log(`Under-run: ${gap.toFixed(2)}s gap before chunk #${sequence}, buffer now ${this.scheduler.targetBufferTime.toFixed(2)}s.`, 'warn');
+      }
+      if (primed || late) {
+        setTimeout(() => {
+          if (this.playbackState === 'loading') {
+            this.playbackState = 'playing';
+            this.host.onTransportStarted(this);
+            this.host.requestUpdate();
+          }
+        }, startDelay * 1000);
+      }
+    }
+  }
+
+  private handleConnectionLost(token: number, reason: string) {
+    // Ignore sessions we replaced or closed on purpose, and repeat reports.
+    if (token !== this.sessionToken || this.reconnectTimer !== null) return;
+    this.connectionError = true;
+
+    if (this.isActive) {
+      this.resumeAfterReconnect = true;
+      // Whatever is already buffered keeps playing while we reconnect.
+      this.playbackState = 'loading';
+    }
+
+    if (this.reconnectAttempt >= this.maxReconnectAttempts) {
+      this.connectionStatus = 'disconnected';
+      this.resumeAfterReconnect = false;
+      this.stop();
+      this.host.notify(this, `${reason}. Could not reconnect, press play to retry.`);
+      return;
+    }
+
+    const delay = Math.min(30000, 1000 * Math.pow(2, this.reconnectAttempt)) + Math.random() * 250;
+    this.connectionStatus = 'reconnecting';
+    this.host.notify(this, `${reason}, reconnecting in ${Math.round(delay / 1000)}s...`);
+    this.reconnectTimer = window.setTimeout(() => this.reconnect(), delay);
+    this.host.requestUpdate();
+  }
+
+  private async reconnect() {
+    this.reconnectTimer = null;
+    this.reconnectAttempt++;
+    const token = this.sessionToken + 1;
+    try {
+      await this.connect();
+      await this.replay();
+    } catch (e) {
+      this.diagnostics.log(`Reconnect failed: ${e.message ?? e}`, 'error');
+      this.handleConnectionLost(token, 'Reconnect failed');
+      return;
+    }
+    if (this.resumeAfterReconnect) {
+      this.resumeAfterReconnect = false;
+      this.session?.play();
+    }
+    this.host.notify(this, 'Reconnected.');
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.resumeAfterReconnect = false;
+    this.reconnectAttempt = 0;
+  }
+}
+
+export {CROSSFADE_CURVES, crossfadeGains, Deck, DEFAULT_DECK_CONFIG};
+export type {ConnectionStatus, CrossfadeCurve, DeckConfig, DeckHost, DeckId, PlaybackState};
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+type DiagnosticLevel = 'info' | 'warn' | 'error';
+
+interface DiagnosticEvent {
+  time: number; // ms since epoch
+  level: DiagnosticLevel;
+  message: string;
+}
+
+interface FilteredPromptRecord {
+  time: number;
+  text: string;
+  reason: string;
+}
+
+interface SentPayload {
+  time: number;
+  payload: unknown;
+}
+
+const MAX_EVENTS = 200;
+const MAX_FILTERED = 20;
+const RATE_WINDOW_MS = 10000;
+
+/**
+ * Replaces audio data with a short summary so payloads stay readable and
+ * debug bundles stay small.
+ */
+function redactAudio(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactAudio);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      out[key] = key === 'audio' && typeof v === 'string'
+        ? `<${v.length} base64 chars>`
+        : redactAudio(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+/** Collects session telemetry for the diagnostics drawer and debug bundles. */
+class SessionDiagnostics {
+  events: DiagnosticEvent[] = [];
+  filteredPrompts: FilteredPromptRecord[] = [];
+  lastPromptPayload: SentPayload | null = null;
+  lastConfigPayload: SentPayload | null = null;
+  setupCompleteAt: number | null = null;
+  private chunkTimes: number[] = [];
+
+  log(message: string, level: DiagnosticLevel = 'info') {
+    this.events.push({time: Date.now(), level, message});
+    if (this.events.length > MAX_EVENTS) this.events.shift();
+  }
+
+  setupComplete() {
+    this.setupCompleteAt = Date.now();
+    this.log('Setup complete.');
+  }
+
+  disconnected(message: string, level: DiagnosticLevel = 'warn') {
+    this.setupCompleteAt = null;
+    this.log(message, level);
+  }
+
+  chunkReceived() {
+    const now = Date.now();
+    this.chunkTimes.push(now);
+    while (this.chunkTimes.length && this.chunkTimes[0] < now - RATE_WINDOW_MS) {
+      this.chunkTimes.shift();
+    }
+  }
+
+  filtered(text: string, reason: string) {
+    this.filteredPrompts.push({time: Date.now(), text, reason});
+    if (this.filteredPrompts.length > MAX_FILTERED) this.filteredPrompts.shift();
+    this.log(`Prompt filtered: "${text}" (${reason})`, 'warn');
+  }
+
+  sentPrompts(payload: unknown) {
+    this.lastPromptPayload = {time: Date.now(), payload: redactAudio(payload)};
+  }
+
+  sentConfig(payload: unknown) {
+    this.lastConfigPayload = {time: Date.now(), payload};
+  }
+
+  /** Audio chunks received per second over the last few seconds. */
+  get chunksPerSecond() {
+    const cutoff = Date.now() - RATE_WINDOW_MS;
+    const recent = this.chunkTimes.filter((t) => t >= cutoff);
+    return recent.length / (RATE_WINDOW_MS / 1000);
+  }
+
+  /** Seconds since the server confirmed setup, or null when not connected. */
+  get secondsSinceSetup() {
+    return this.setupCompleteAt === null ? null : (Date.now() - this.setupCompleteAt) / 1000;
+  }
+
+  toBundle(extra: Record<string, unknown>) {
+    return {
+      generatedAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      ...extra,
+      secondsSinceSetup: this.secondsSinceSetup,
+      chunksPerSecond: this.chunksPerSecond,
+      lastPromptPayload: this.lastPromptPayload,
+      lastConfigPayload: this.lastConfigPayload,
+      filteredPrompts: this.filteredPrompts,
+      events: this.events,
+    };
+  }
+}
+
+export {redactAudio, SessionDiagnostics};
+export type {DiagnosticEvent, DiagnosticLevel, FilteredPromptRecord, SentPayload};
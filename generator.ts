@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {suggestTags, type InstrumentTag} from './tags';
+
+type Energy = 'low' | 'medium' | 'high';
+
+interface GeneratorOptions {
+  /** Number of prompts to make, the genre prompt included. */
+  count: number;
+  /** Leave drums to the cards already on the canvas. */
+  keepDrums: boolean;
+  energy: Energy;
+  seed: number;
+}
+
+interface GeneratedPrompt {
+  text: string;
+  weight: number;
+  tags: InstrumentTag[];
+}
+
+const GENRES = [
+  'Minimal Techno', 'Deep House', 'Drum and Bass', 'Trip Hop', 'Bossa Nova', 'Neo Soul',
+  'Shoegaze', 'Synthwave', 'Afrobeat', 'Dub', 'Lo-fi Hip Hop', 'UK Garage', 'Ambient',
+  'Funk', 'Krautrock', 'Jungle', 'Chiptune', 'Post Punk',
+];
+
+const INSTRUMENTS: {text: string; role: InstrumentTag}[] = [
+  {text: 'drum machine groove', role: 'drums'},
+  {text: 'live drum kit', role: 'drums'},
+  {text: 'chopped breakbeats', role: 'drums'},
+  {text: 'hand percussion', role: 'drums'},
+  {text: 'sub bass', role: 'bass'},
+  {text: 'slap bass', role: 'bass'},
+  {text: 'acid bassline', role: 'bass'},
+  {text: 'Rhodes piano', role: 'melody'},
+  {text: 'plucked synth arpeggios', role: 'melody'},
+  {text: 'jangly guitar', role: 'melody'},
+  {text: 'kalimba melody', role: 'melody'},
+  {text: 'saxophone lead', role: 'melody'},
+  {text: 'string pads', role: 'pads'},
+  {text: 'analog synth pads', role: 'pads'},
+  {text: 'airy choir', role: 'vocals'},
+  {text: 'chopped vocal samples', role: 'vocals'},
+  {text: 'vinyl crackle and tape hiss', role: 'fx'},
+];
+
+const MOODS: Record<Energy, string[]> = {
+  low: ['dreamy', 'melancholic', 'calm', 'hazy', 'intimate'],
+  medium: ['groovy', 'warm', 'uplifting', 'mysterious', 'playful'],
+  high: ['driving', 'euphoric', 'aggressive', 'frantic', 'explosive'],
+};
+
+const TEXTURES = ['lush', 'gritty', 'crisp', 'muffled', 'glassy', 'saturated', 'spacious', 'dusty'];
+
+/** The weight range of the instrument prompts for each energy level. */
+const ENERGY_WEIGHTS: Record<Energy, [number, number]> = {
+  low: [0.4, 0.8],
+  medium: [0.6, 1.1],
+  high: [0.9, 1.5],
+};
+
+/** A small seeded PRNG (mulberry32), returning floats in [0, 1). */
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomSeed() {
+  return Math.floor(Math.random() * 1e6);
+}
+
+/**
+ * Makes a genre prompt and `count - 1` instrument prompts. The same options
+ * always give the same prompts. Drums come first unless `keepDrums` is set,
+ * and no role is used twice while another is still free.
+ */
+function generatePrompts(options: GeneratorOptions): GeneratedPrompt[] {
+  const random = mulberry32(options.seed);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  const genreText = `${pick(MOODS[options.energy])} ${pick(GENRES)}`;
+  const prompts: GeneratedPrompt[] = [{text: genreText, weight: round(1 + random() * 0.2), tags: suggestTags(genreText)}];
+
+  const [minWeight, maxWeight] = ENERGY_WEIGHTS[options.energy];
+  let pool = INSTRUMENTS.filter((i) => !options.keepDrums || i.role !== 'drums');
+  const usedRoles = new Set<InstrumentTag>();
+  for (let n = 1; n < options.count && pool.length > 0; n++) {
+    const wantDrums = n === 1 && !options.keepDrums;
+    const freshRoles = pool.filter((i) => !usedRoles.has(i.role));
+    const choices = wantDrums ? pool.filter((i) => i.role === 'drums') : freshRoles.length ? freshRoles : pool;
+    const instrument = pick(choices);
+    pool = pool.filter((i) => i !== instrument);
+    usedRoles.add(instrument.role);
+    const text = `${pick(TEXTURES)} ${instrument.text}`;
+    const tags = suggestTags(text);
+    prompts.push({
+      text,
+      weight: round(minWeight + random() * (maxWeight - minWeight)),
+      tags: tags.includes(instrument.role) ? tags : [instrument.role, ...tags],
+    });
+  }
+  return prompts;
+}
+
+export {generatePrompts, randomSeed};
+export type {Energy, GeneratedPrompt, GeneratorOptions};
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A named set of prompts that share a macro fader and a mute. */
+interface PromptGroup {
+  readonly id: string;
+  name: string;
+  color: string;
+  /** Scales every member's weight, 0-2. */
+  macro: number;
+  muted: boolean;
+}
+
+/** Padding around the member cards when a group's region is drawn, in px. */
+const GROUP_REGION_PADDING = 16;
+
+/** The box around the given card rectangles, padded for the group label. */
+function groupBounds(cards: {x: number; y: number; width: number; height: number}[]) {
+  const left = Math.min(...cards.map((c) => c.x)) - GROUP_REGION_PADDING;
+  const top = Math.min(...cards.map((c) => c.y)) - GROUP_REGION_PADDING * 2;
+  const right = Math.max(...cards.map((c) => c.x + c.width)) + GROUP_REGION_PADDING;
+  const bottom = Math.max(...cards.map((c) => c.y + c.height)) + GROUP_REGION_PADDING;
+  return {x: left, y: top, width: right - left, height: bottom - top};
+}
+
+/** Groups are kept next to the prompts they belong to, under `<key>-groups`. */
+function getStoredGroups(key: string): Map<string, PromptGroup> {
+  try {
+    const groups = JSON.parse(localStorage.getItem(`${key}-groups`) ?? '[]') as PromptGroup[];
+    return new Map(groups.map((g) => [g.id, g]));
+  } catch (e) {
+    console.error('Failed to parse stored prompt groups', e);
+    return new Map();
+  }
+}
+
+function setStoredGroups(groups: Map<string, PromptGroup>, key: string) {
+  localStorage.setItem(`${key}-groups`, JSON.stringify([...groups.values()]));
+}
+
+export {getStoredGroups, groupBounds, setStoredGroups};
+export type {PromptGroup};
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** How long after a change another with the same key still joins its step, in ms. */
+const COALESCE_MS = 1000;
+/** Steps kept for undo; the oldest are dropped first. */
+const HISTORY_LIMIT = 100;
+
+interface HistoryStep<S> {
+  before: S;
+  after: S;
+  key: string | null;
+  time: number;
+}
+
+/**
+ * Undo and redo over snapshots of some state. The owner records the state
+ * after each change, and restores whatever `undo` or `redo` hands back.
+ */
+class EditHistory<S> {
+  private undoStack: HistoryStep<S>[] = [];
+  private redoStack: HistoryStep<S>[] = [];
+  /** Whether the next change may join the last step; not after an undo or redo. */
+  private canCoalesce = false;
+
+  constructor(
+    private current: S,
+    /** Whether two snapshots hold the same state, so a record of no change is skipped. */
+    private readonly equals: (a: S, b: S) => boolean,
+  ) {}
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Records a change that left the state at `state`. A change with the same
+   * `key` soon after the last one joins its step, so a slider drag or a run
+   * of typing undoes in one go.
+   */
+  record(state: S, key: string | null = null) {
+    if (this.equals(state, this.current)) return;
+    const now = performance.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (this.canCoalesce && key !== null && last?.key === key && now - last.time < COALESCE_MS) {
+      last.after = state;
+      last.time = now;
+    } else {
+      this.undoStack.push({before: this.current, after: state, key, time: now});
+      if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.current = state;
+    this.canCoalesce = true;
+  }
+
+  /** The state before the last step, or null if there is nothing to undo. */
+  undo(): S | null {
+    const step = this.undoStack.pop();
+    if (!step) return null;
+    this.redoStack.push(step);
+    this.current = step.before;
+    this.canCoalesce = false;
+    return step.before;
+  }
+
+  /** The state after the last undone step, or null if there is nothing to redo. */
+  redo(): S | null {
+    const step = this.redoStack.pop();
+    if (!step) return null;
+    this.undoStack.push(step);
+    this.current = step.after;
+    this.canCoalesce = false;
+    return step.after;
+  }
+
+  /** Drops all steps and starts over from `state`. */
+  reset(state: S) {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.current = state;
+    this.canCoalesce = false;
+  }
+}
+
+export {EditHistory};
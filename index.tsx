@@ -10,25 +10,106 @@ import {styleMap} from 'lit/directives/style-map.js';
 import * as THREE from 'three';
 import * as lamejs from 'lamejs';
 
+import type {WeightedPrompt} from '@google/genai';
 import {
-  GoogleGenAI,
-  type LiveMusicGenerationConfig,
-  type LiveMusicServerMessage,
-  type LiveMusicSession,
-} from '@google/genai';
-import {decode, decodeAudioData, resampleAndEncodeAudio} from './utils';
-
-const ai = new GoogleGenAI({
-  apiKey: process.env.API_KEY,
-  apiVersion: 'v1alpha',
-});
-let model = 'lyria-realtime-exp';
+  CROSSFADE_CURVES,
+  crossfadeGains,
+  Deck,
+  type ConnectionStatus,
+  type CrossfadeCurve,
+  type DeckConfig,
+  type DeckHost,
+  type DeckId,
+  type PlaybackState,
+} from './deck';
+import type {DiagnosticEvent, FilteredPromptRecord, SentPayload} from './diagnostics';
+import {LAUNCH_QUANTIZE_OPTIONS, type LaunchQuantize} from './launch-quantize';
+import {
+  DEFAULT_LFO,
+  LFO_RATES,
+  LFO_SHAPES,
+  lfoSeed,
+  modulatedWeight,
+  type Lfo,
+  type LfoShape,
+} from './lfo';
+import {
+  getStoredLibrary,
+  parseLibraryEntries,
+  PROMPT_TEXT_PRESETS,
+  SAVED_CATEGORY,
+  searchLibrary,
+  setStoredLibrary,
+  type LibraryEntry,
+  type LibraryFilter,
+} from './library';
+import {
+  adaptModifierValues,
+  BUILTIN_MODIFIER_PACKS,
+  DEFAULT_MODIFIER_PACK,
+  DEFAULT_MODIFIER_PACK_ID,
+  defaultModifierValues,
+  getModifierText,
+  getStoredModifierPacks,
+  parseModifierPack,
+  setStoredModifierPacks,
+  type ModifierControl,
+  type ModifierPack,
+  type ModifierRange,
+  type ModifierValues,
+} from './modifiers';
+import {
+  createMusicProvider,
+  getInitialProviderSettings,
+  MUSIC_PROVIDERS,
+  setStoredProviderSettings,
+  type MusicProvider,
+  type MusicProviderSettings,
+} from './providers';
+import type {StreamStats} from './stream-tracker';
+import {downloadBlob, fileTimestamp, resampleAndEncodeAudio} from './utils';
+import {
+  TRANSITION_TICK_MS,
+  transitionDuration,
+  transitionWeight,
+  type TransitionUnit,
+} from './weight-transitions';
+import {INSTRUMENT_TAGS, isInstrumentTag, suggestTags, type InstrumentTag} from './tags';
+import {generatePrompts, randomSeed, type Energy} from './generator';
+import {getStoredGroups, groupBounds, setStoredGroups, type PromptGroup} from './groups';
+import {EditHistory} from './history';
+import {PROMPT_SCHEMA_VERSION, upgradePrompts, type PromptRecord} from './prompt-schema';
+import {PromptStore, type StoredPrompt} from './prompt-store';
+import {parseProject, PROJECT_FORMAT, PROJECT_VERSION, type Project, type ProjectPrompt} from './project';
+import {
+  getStoredScenes,
+  interpolateFx,
+  MASTER_FX_KEYS,
+  SCENE_SLOTS,
+  sceneStorageKey,
+  setStoredScenes,
+  type MasterFx,
+  type Scene,
+} from './scenes';
+import {MORPH_CORNERS, morphWeights, smoothTowards, type MorphCorner} from './morph';
 
 interface PromptBase {
   readonly promptId: string;
-  readonly type: 'text' | 'audio';
+  readonly type: 'text' | 'audio' | 'negative';
   readonly color: string;
   weight: number;
+  /** Left out of the payload without losing `weight`. */
+  muted: boolean;
+  /** While any prompt is soloed, only soloed prompts are sent. */
+  solo: boolean;
+  /** Instrument roles the performance mutes act on. */
+  tags: InstrumentTag[];
+  /** Once the tags are edited by hand they are no longer suggested from the text. */
+  tagsEdited: boolean;
+  /** The group the prompt belongs to, if any. */
+  groupId: string | null;
+  /** Modulates `weight` while it is set. */
+  lfo: Lfo | null;
   x: number;
   y: number;
 }
@@ -36,13 +117,9 @@ interface PromptBase {
 interface TextPrompt extends PromptBase {
   readonly type: 'text';
   text: string;
-  modifiers: {
-    style: string;
-    character: string;
-    effect: string;
-    density: number;
-    tone: number;
-  };
+  /** Id of the modifier pack whose controls the card shows. */
+  modifierPack: string;
+  modifiers: ModifierValues;
 }
 
 interface AudioPrompt extends PromptBase {
@@ -54,23 +131,27 @@ interface AudioPrompt extends PromptBase {
   variation: number; // Knob value 0-1
 }
 
-type Prompt = TextPrompt | AudioPrompt;
-
-type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+type NegativePreset = 'bass' | 'drums' | 'melody';
 
-/** Throttles a callback to be called at most once per `freq` milliseconds. */
-function throttle(func: (...args: unknown[]) => void, delay: number) {
-  let lastCall = 0;
-  return (...args: unknown[]) => {
-    const now = Date.now();
-    const timeSinceLastCall = now - lastCall;
-    if (timeSinceLastCall >= delay) {
-      func(...args);
-      lastCall = now;
-    }
-  };
+/** Something the music should steer away from, like "no vocals". Sent as written. */
+interface NegativePrompt extends PromptBase {
+  readonly type: 'negative';
+  text: string;
+  /** The NO button the card was made by, if any. */
+  preset?: NegativePreset;
 }
 
+type Prompt = TextPrompt | AudioPrompt | NegativePrompt;
+
+/** The NO buttons; each adds a negative card and mutes the cards tagged with its role. */
+const NEGATIVE_PRESETS: Record<NegativePreset, {label: string; text: string; tag: InstrumentTag}> = {
+  bass: {label: 'NO BASS', text: 'no bass, no bassline', tag: 'bass'},
+  drums: {label: 'NO DRUMS', text: 'no drums, no percussion, no beat', tag: 'drums'},
+  melody: {label: 'NO MELODY', text: 'no melody, no lead instrument', tag: 'melody'},
+};
+
+const NEGATIVE_COLOR = '#ff3e3e';
+
 const MAJOR_KEYS = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'Db', 'Ab', 'Eb', 'Bb', 'F'];
 const MINOR_KEYS = ['A', 'E', 'B', 'F#', 'C#', 'G#', 'D#', 'Bb', 'F', 'C', 'G', 'D'];
 const ALL_KEYS = [
@@ -79,25 +160,6 @@ const ALL_KEYS = [
 ].sort();
 
 
-const PROMPT_TEXT_PRESETS = [
-  'Bossa Nova',
-  'Minimal Techno',
-  'Drum and Bass',
-  'Post Punk',
-  'Shoegaze',
-  'Funk',
-  'Chiptune',
-  'Lush Strings',
-  'Sparkling Arpeggios',
-  'Staccato Rhythms',
-  'Punchy Kick',
-  'Dubstep',
-  'K Pop',
-  'Neo Soul',
-  'Trip Hop',
-  'Thrash',
-];
-
 const COLORS = [
   '#be00ff', // Purple
   '#0094ff', // Blue
@@ -164,10 +226,33 @@ class WeightSlider extends LitElement {
       width: 100%;
       box-shadow: 0 0 5px, 0 0 10px;
     }
+    #target {
+      position: absolute;
+      left: -4px;
+      right: -4px;
+      height: 2px;
+      background: #fff;
+      box-shadow: 0 0 4px #fff;
+      pointer-events: none;
+    }
+    #modulated {
+      position: absolute;
+      left: -3px;
+      right: -3px;
+      height: 4px;
+      border: 1px solid #fff;
+      border-radius: 2px;
+      box-sizing: border-box;
+      pointer-events: none;
+    }
   `;
 
   @property({type: Number}) value = 0; // Range 0-2
   @property({type: String}) color = '#c0b4f8';
+  /** Where the value is gliding to, or null when it is not moving. */
+  @property({type: Number}) target: number | null = null;
+  /** The value with an LFO applied, or null when none is assigned. */
+  @property({type: Number}) modulated: number | null = null;
 
   @query('.scroll-container') private scrollContainer!: HTMLDivElement;
 
@@ -256,8 +341,10 @@ class WeightSlider extends LitElement {
         @wheel=${this.handleWheel}>
         <div class="slider-container">
           <div id="thumb" style=${thumbStyle}></div>
+          ${this.target === null ? '' : html`<div id="target" style=${styleMap({bottom: `calc(${(this.target / 2) * 100}% - 1px)`})}></div>`}
+          ${this.modulated === null ? '' : html`<div id="modulated" style=${styleMap({bottom: `calc(${(this.modulated / 2) * 100}% - 2px)`})}></div>`}
         </div>
-        <div class="value-display">${displayValue}</div>
+        <div class="value-display">${displayValue}${this.target === null ? '' : ` → ${this.target.toFixed(2)}`}${this.modulated === null ? '' : html`<br>~${this.modulated.toFixed(2)}`}</div>
       </div>
     `;
   }
@@ -321,11 +408,14 @@ class StyledButton extends LitElement {
 @customElement('play-pause-button')
 export class PlayPauseButton extends StyledButton {
   @property({type: String}) playbackState: PlaybackState = 'stopped';
+  @property({type: String}) connectionStatus: ConnectionStatus = 'connecting';
+  @property({type: Number}) reconnectAttempt = 0;
   
   override render() {
     let text = 'STANDBY';
     if(this.playbackState === 'playing') text = 'ON AIR';
     if(this.playbackState === 'loading') text = 'CONNECTING...';
+    if(this.connectionStatus === 'reconnecting') text = `RECONNECTING (${this.reconnectAttempt})...`;
 
     return html`<div class=${classMap({ button: true, active: this.playbackState === 'playing'})}>${text}</div>`;
   }
@@ -522,11 +612,211 @@ class RotaryKnob extends LitElement {
   }
 }
 
+/** Editor for a prompt's LFO; dispatches `lfo-change` with the LFO, or null to remove it. */
+@customElement('lfo-editor')
+class LfoEditor extends LitElement {
+  static override styles = css`
+    :host {
+      position: absolute;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      z-index: 20;
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.5vmin;
+      align-items: center;
+      padding: 0.8vmin;
+      background: rgba(13, 2, 26, 0.95);
+      border-top: 1px solid #6c52ff;
+      color: #c0b4f8;
+      font-family: 'Roboto Mono', monospace;
+      font-size: 1.2vmin;
+    }
+    select, input {
+      min-width: 0;
+      background: rgba(13, 2, 26, 0.7);
+      border: 1px solid #6c52ff;
+      color: #c0b4f8;
+      font-family: 'Roboto Mono', monospace;
+      font-size: 1.2vmin;
+    }
+    button {
+      grid-column: 1 / 3;
+      background: rgba(13, 2, 26, 0.5);
+      border: 1px solid #6c52ff;
+      color: #c0b4f8;
+      cursor: pointer;
+      font-family: 'Roboto Mono', monospace;
+      font-size: 1.2vmin;
+      text-transform: uppercase;
+    }
+  `;
+
+  @property({type: Object}) lfo: Lfo | null = null;
+
+  private change(changes: Partial<Lfo> | null) {
+    const lfo = changes === null ? null : {...(this.lfo ?? DEFAULT_LFO), ...changes};
+    this.dispatchEvent(new CustomEvent<Lfo | null>('lfo-change', {detail: lfo, bubbles: true, composed: true}));
+  }
+
+  override render() {
+    const lfo = this.lfo ?? DEFAULT_LFO;
+    const value = (e: Event) => (e.target as HTMLInputElement).value;
+    return html`
+      <label>Shape</label>
+      <select .value=${lfo.shape} @change=${(e: Event) => this.change({shape: value(e) as LfoShape})}>
+        ${LFO_SHAPES.map((s) => html`<option value=${s.id} ?selected=${s.id === lfo.shape}>${s.label}</option>`)}
+      </select>
+      <label>Bars</label>
+      <select @change=${(e: Event) => this.change({rate: Number(value(e))})}>
+        ${LFO_RATES.map((r) => html`<option value=${r} ?selected=${r === lfo.rate}>${r}</option>`)}
+      </select>
+      <label>Depth</label>
+      <input type="range" min="0" max="1" step="0.01" .value=${String(lfo.depth)}
+          @input=${(e: Event) => this.change({depth: Number(value(e))})}>
+      <label>Phase</label>
+      <input type="range" min="0" max="1" step="0.01" .value=${String(lfo.phase)}
+          @input=${(e: Event) => this.change({phase: Number(value(e))})}>
+      ${this.lfo ? html`<button @click=${() => this.change(null)}>Remove LFO</button>`
+        : html`<button @click=${() => this.change({})}>Add LFO</button>`}
+    `;
+  }
+}
+
+/** Styles for `renderTagChips`. */
+const tagChipStyles = css`
+  .tags {
+    display: flex;
+    width: 100%;
+    flex-shrink: 0;
+  }
+  .tag {
+    flex: 1;
+    background: transparent;
+    color: #c0b4f8;
+    border: none;
+    border-top: 1px solid #6c52ff40;
+    font-family: 'Roboto Mono', monospace;
+    font-size: 1.1vmin;
+    padding: 0.2vmin 0;
+    cursor: pointer;
+    opacity: 0.35;
+  }
+  .tag.active {
+    opacity: 1;
+    color: #fff;
+    background: rgba(108, 82, 255, 0.4);
+  }
+`;
+
+/**
+ * The instrument tag toggles shown on prompt cards. A toggle hands `onChange`
+ * the new tags, marked as edited so they no longer follow the text.
+ */
+function renderTagChips(tags: InstrumentTag[], onChange: (change: Partial<Prompt>) => void) {
+  const toggle = (tag: InstrumentTag) => onChange({
+    tags: tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag],
+    tagsEdited: true,
+  });
+  return html`<div class="tags">
+    ${INSTRUMENT_TAGS.map((t) => html`<button
+        class=${classMap({tag: true, active: tags.includes(t.id)})}
+        title=${t.id}
+        @click=${() => toggle(t.id)}>${t.label}</button>`)}
+  </div>`;
+}
+
+/** The header bar, its buttons and the selected and silenced looks shared by the prompt cards. */
+const cardHeaderStyles = css`
+  .header {
+    width: 100%;
+    display: flex;
+    height: 2.5vmin;
+    border-bottom: 1px solid;
+  }
+  .drag-handle {
+    flex-grow: 1;
+    cursor: grab;
+    background-color: rgba(108, 82, 255, 0.1);
+  }
+  :host([queued]) .drag-handle {
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    background: repeating-linear-gradient(-45deg, #ffdd2840 0 0.5vmin, transparent 0.5vmin 1vmin);
+  }
+  :host([queued]) .drag-handle::after {
+    content: 'QUEUED';
+    color: #ffdd28;
+    font-family: 'Roboto Mono', monospace;
+    font-size: 1.1vmin;
+  }
+  .remove-button {
+    background: #0d021a;
+    color: #c0b4f8;
+    border: none;
+    border-left: 1px solid;
+    width: 2.5vmin;
+    height: 100%;
+    font-size: 1.5vmin;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    cursor: pointer;
+    opacity: 0.5;
+    transition: all 0.2s;
+    z-index: 10;
+  }
+  .remove-button:hover {
+    opacity: 1;
+    background: #ff00a0;
+    color: #fff;
+  }
+  .toggle-button {
+    background: #0d021a;
+    color: #c0b4f8;
+    border: none;
+    border-left: 1px solid;
+    width: 2.5vmin;
+    height: 100%;
+    font-family: 'Roboto Mono', monospace;
+    font-size: 1.3vmin;
+    cursor: pointer;
+    opacity: 0.5;
+    z-index: 10;
+  }
+  .toggle-button:hover {
+    opacity: 1;
+  }
+  .toggle-button.mute.active {
+    opacity: 1;
+    background: #ff00a0;
+    color: #fff;
+  }
+  .toggle-button.solo.active {
+    opacity: 1;
+    background: #ffdd28;
+    color: #0d021a;
+  }
+  .toggle-button.lfo.active {
+    opacity: 1;
+    background: #00f5d4;
+    color: #0d021a;
+  }
+  :host([silenced]) .main-content {
+    opacity: 0.4;
+  }
+  :host([selected]) .prompt {
+    outline: 0.3vmin dashed #fff;
+    outline-offset: 0.3vmin;
+  }
+`;
 
 /** A single text prompt input */
 @customElement('prompt-controller')
 class PromptController extends LitElement {
-  static override styles = css`
+  static override styles = [cardHeaderStyles, tagChipStyles, css`
     :host {
       height: 42vmin;
       width: 25vmin;
@@ -561,38 +851,6 @@ class PromptController extends LitElement {
         box-shadow: inset 0 0 20px var(--glow-color), 0 0 20px var(--glow-color);
       }
     }
-    .header {
-      width: 100%;
-      display: flex;
-      height: 2.5vmin;
-      border-bottom: 1px solid;
-    }
-    .drag-handle {
-      flex-grow: 1;
-      cursor: grab;
-      background-color: rgba(108, 82, 255, 0.1);
-    }
-    .remove-button {
-      background: #0d021a;
-      color: #c0b4f8;
-      border: none;
-      border-left: 1px solid;
-      width: 2.5vmin;
-      height: 100%;
-      font-size: 1.5vmin;
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      cursor: pointer;
-      opacity: 0.5;
-      transition: all 0.2s;
-      z-index: 10;
-    }
-    .remove-button:hover {
-      opacity: 1;
-      background: #ff00a0;
-      color: #fff;
-    }
     .main-content {
       display: flex;
       flex-grow: 1;
@@ -704,33 +962,75 @@ class PromptController extends LitElement {
     .knob-area {
       flex-grow: 1;
       display: flex;
-      flex-direction: column;
       align-items: center;
       justify-content: center;
       gap: 1vmin;
       border-top: 1px solid;
       padding-top: 1vmin;
     }
+    .knob {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 1vmin;
+    }
 
     .knob-label {
         font-size: 1.3vmin;
         text-transform: uppercase;
     }
 
-    :host([filtered='true']) #text {
+    :host([filtered]) .prompt {
+      border-style: dashed;
+      animation: none;
+    }
+    :host([filtered]) #text {
       background: #800;
       color: #f00;
       text-shadow: 0 0 5px #f00;
     }
-  `;
+    .filtered-badge {
+      width: 100%;
+      background: #800;
+      border: 1px solid #f00;
+      color: #fff;
+      font-family: 'Roboto Mono', monospace;
+      font-size: 1.2vmin;
+      text-transform: uppercase;
+      padding: 0.3vmin;
+      cursor: pointer;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+  `];
 
   @property({type: String, reflect: true}) promptId = '';
   @property({type: String}) text = '';
   @property({type: Number}) weight = 0;
   @property({type: String}) color = '';
-  @property({type: Object}) modifiers = { style: 'Normal', character: 'Default', effect: 'None', density: 0.5, tone: 0 };
+  @property({type: Object}) modifiers: ModifierValues = defaultModifierValues(DEFAULT_MODIFIER_PACK);
+  @property({type: Object}) modifierPack: ModifierPack = DEFAULT_MODIFIER_PACK;
+  @property({type: Array}) packs: ModifierPack[] = [DEFAULT_MODIFIER_PACK];
   @property({type: Object}) frequencyData: Uint8Array | null = null;
   @property({type: Number}) bpm = 120;
+  /** Whether a change to this prompt waits for a quantized launch. */
+  @property({type: Boolean, reflect: true}) queued = false;
+  /** The weight a timed transition is heading for, if any. */
+  @property({type: Number}) targetWeight: number | null = null;
+  @property({type: Object}) lfo: Lfo | null = null;
+  /** The weight with the LFO applied, when there is one. */
+  @property({type: Number}) modulatedWeight: number | null = null;
+  @state() private lfoOpen = false;
+  @property({type: Boolean}) muted = false;
+  @property({type: Boolean}) solo = false;
+  /** Whether mute or another prompt's solo keeps this one out of the payload. */
+  @property({type: Boolean, reflect: true}) silenced = false;
+  @property({type: Array}) tags: InstrumentTag[] = [];
+  /** Whether the card is picked for the next group (shift-click its handle). */
+  @property({type: Boolean, reflect: true}) selected = false;
+  @property({type: Boolean, reflect: true}) filtered = false;
+  @property({type: String}) filteredReason = '';
   @state() private modsVisible = true;
 
   @query('weight-slider') private weightInput!: WeightSlider;
@@ -835,6 +1135,60 @@ class PromptController extends LitElement {
     this.dispatchPromptChange();
   }
 
+  private updatePack(e: Event) {
+    const modifierPack = (e.target as HTMLSelectElement).value;
+    this.dispatchEvent(
+      new CustomEvent<Partial<TextPrompt>>('prompt-changed', {
+        detail: {modifierPack},
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private renderModifierControl(control: ModifierControl) {
+    const id = `${control.key}-${this.promptId}`;
+    const value = this.modifiers[control.key] ?? control.default;
+    if (control.type === 'select') {
+      return html`<div class="mod-row">
+          <label for=${id}>${control.label}</label>
+          <select id=${id} data-key=${control.key} .value=${String(value)} @change=${this.updateModifiers}>
+              ${control.options.map((o) => html`<option value=${o.value}>${o.value}</option>`)}
+          </select>
+      </div>`;
+    }
+    return html`<div class="mod-row">
+        <label for=${id}>${control.label}</label>
+        <input id=${id} type="range" data-key=${control.key}
+            min=${control.min} max=${control.max} step=${control.step ?? 0.01}
+            .value=${String(value)} @input=${this.updateModifiers}>
+    </div>`;
+  }
+
+  private dispatchShowFiltered() {
+    this.dispatchEvent(new CustomEvent('show-filtered-prompts', {bubbles: true, composed: true}));
+  }
+
+  private dispatchToggle(change: Partial<Prompt>) {
+    this.dispatchEvent(
+      new CustomEvent<Partial<Prompt>>('prompt-changed', {
+        detail: change,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private dispatchSaveToLibrary() {
+    this.dispatchEvent(
+      new CustomEvent<string>('prompt-save-to-library', {
+        detail: this.promptId,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
   private dispatchPromptRemoved() {
     this.dispatchEvent(
       new CustomEvent<string>('prompt-removed', {
@@ -846,7 +1200,7 @@ class PromptController extends LitElement {
   }
 
   override render() {
-    const isActive = this.weight > 0.01;
+    const isActive = this.weight > 0.01 && !this.silenced;
     const promptClasses = classMap({ prompt: true, active: isActive });
     const style = styleMap({
         'border-color': this.color,
@@ -863,7 +1217,8 @@ class PromptController extends LitElement {
     const mainContentStyle = styleMap({
       'border-color': this.color,
     });
-    const textStyle = styleMap({
+    // Left to the :host([filtered]) rule while the prompt is filtered.
+    const textStyle = styleMap(this.filtered ? {} : {
       'color': this.color,
       'text-shadow': `0 0 5px ${this.color}`
     });
@@ -874,6 +1229,14 @@ class PromptController extends LitElement {
     return html`<div class=${promptClasses} style=${style}>
       <div class="header" style=${headerStyle}>
         <div class="drag-handle"></div>
+        <button class=${classMap({'toggle-button': true, mute: true, active: this.muted})} style=${removeButtonStyle}
+            title="Mute" @click=${() => this.dispatchToggle({muted: !this.muted})}>M</button>
+        <button class=${classMap({'toggle-button': true, solo: true, active: this.solo})} style=${removeButtonStyle}
+            title="Solo" @click=${() => this.dispatchToggle({solo: !this.solo})}>S</button>
+        <button class=${classMap({'toggle-button': true, lfo: true, active: !!this.lfo || this.lfoOpen})} style=${removeButtonStyle}
+            title="LFO" @click=${() => this.lfoOpen = !this.lfoOpen}>~</button>
+        <button class="toggle-button" style=${removeButtonStyle}
+            title="Save to the prompt library" @click=${this.dispatchSaveToLibrary}>★</button>
         <button class="remove-button" style=${removeButtonStyle} @click=${this.dispatchPromptRemoved}>X</button>
       </div>
       <div class="main-content">
@@ -882,10 +1245,17 @@ class PromptController extends LitElement {
             id="weight"
             value=${this.weight}
             color=${this.color}
+            .target=${this.targetWeight}
+            .modulated=${this.modulatedWeight}
             @input=${this.updateWeight}></weight-slider>
         </div>
+        ${this.lfoOpen ? html`<lfo-editor .lfo=${this.lfo}
+            @lfo-change=${(e: CustomEvent<Lfo | null>) => this.dispatchToggle({lfo: e.detail})}></lfo-editor>` : ''}
         <div class="controls-column">
             <canvas class="energy-canvas"></canvas>
+            ${this.filtered ? html`<button class="filtered-badge"
+                title=${`Filtered: ${this.filteredReason || 'no reason given'}. Click to manage filtered prompts.`}
+                @click=${this.dispatchShowFiltered}>Filtered${this.filteredReason ? `: ${this.filteredReason}` : ''}</button>` : ''}
             <span
                 id="text"
                 style=${textStyle}
@@ -894,51 +1264,32 @@ class PromptController extends LitElement {
                 @keydown=${this.handleTextKeyDown}
                 @blur=${this.updateText}
                 >${this.text}</span>
+            ${renderTagChips(this.tags, (change) => this.dispatchToggle(change))}
             <div class="modifiers" style=${modifierStyles}>
                 <div class="mod-header" @click=${() => this.modsVisible = !this.modsVisible}>
                     MODIFIERS [${this.modsVisible ? '-' : '+'}]
                 </div>
                 <div class=${classMap({'mod-controls': true, 'hidden': !this.modsVisible})}>
                     <div class="mod-row">
-                        <label for="style-${this.promptId}">Style</label>
-                        <select id="style-${this.promptId}" data-key="style" .value=${this.modifiers.style} @change=${this.updateModifiers}>
-                            <option>Normal</option>
-                            <option>Staccato</option>
-                            <option>Legato</option>
-                            <option>Pizzicato</option>
-                        </select>
-                    </div>
-                    <div class="mod-row">
-                        <label for="character-${this.promptId}">Character</label>
-                        <select id="character-${this.promptId}" data-key="character" .value=${this.modifiers.character} @change=${this.updateModifiers}>
-                            <option>Default</option>
-                            <option>Muffled</option>
-                            <option>Bright</option>
-                            <option>Gritty</option>
-                            <option>Atmospheric</option>
+                        <label for="pack-${this.promptId}">Pack</label>
+                        <select id="pack-${this.promptId}" .value=${this.modifierPack.id} @change=${this.updatePack}>
+                            ${this.packs.map((p) => html`<option value=${p.id}>${p.name}</option>`)}
                         </select>
                     </div>
-                    <div class="mod-row">
-                        <label for="effect-${this.promptId}">FX</label>
-                        <select id="effect-${this.promptId}" data-key="effect" .value=${this.modifiers.effect} @change=${this.updateModifiers}>
-                            <option>None</option>
-                            <option>Reverb</option>
-                            <option>Echo</option>
-                            <option>Phaser</option>
-                        </select>
-                    </div>
-                    <div class="mod-row">
-                        <label for="density-${this.promptId}">Density</label>
-                        <input id="density-${this.promptId}" type="range" data-key="density" min="0" max="1" step="0.01" .value=${String(this.modifiers.density)} @input=${this.updateModifiers}>
-                    </div>
+                    ${this.modifierPack.controls.filter((c) => c.type !== 'knob').map((c) => this.renderModifierControl(c))}
                 </div>
             </div>
              <div class="knob-area" style=${styleMap({'border-color': this.color})}>
-                <rotary-knob 
-                    .value=${this.modifiers.tone ?? 0}
-                    @input=${(e: CustomEvent) => this.updateKnobModifier('tone', e.detail.value)}>
-                </rotary-knob>
-                <div class="knob-label">TONE</div>
+                ${this.modifierPack.controls.filter((c) => c.type === 'knob').map((knob) => html`
+                    <div class="knob">
+                        <rotary-knob
+                            .min=${(knob as ModifierRange).min}
+                            .max=${(knob as ModifierRange).max}
+                            .value=${Number(this.modifiers[knob.key] ?? knob.default)}
+                            @input=${(e: CustomEvent) => this.updateKnobModifier(knob.key, e.detail.value)}>
+                        </rotary-knob>
+                        <div class="knob-label">${knob.label}</div>
+                    </div>`)}
             </div>
         </div>
       </div>
@@ -949,7 +1300,7 @@ class PromptController extends LitElement {
 /** A single audio prompt input */
 @customElement('audio-prompt-controller')
 class AudioPromptController extends LitElement {
-  static override styles = css`
+  static override styles = [cardHeaderStyles, tagChipStyles, css`
     :host {
       height: 42vmin; /* Match text prompt height */
       width: 25vmin;
@@ -983,38 +1334,6 @@ class AudioPromptController extends LitElement {
       50% {
         box-shadow: inset 0 0 20px var(--glow-color), 0 0 20px var(--glow-color);
       }
-    }
-     .header {
-      width: 100%;
-      display: flex;
-      height: 2.5vmin;
-      border-bottom: 1px solid;
-    }
-    .drag-handle {
-      flex-grow: 1;
-      cursor: grab;
-      background-color: rgba(108, 82, 255, 0.1);
-    }
-    .remove-button {
-      background: #0d021a;
-      color: #c0b4f8;
-      border: none;
-      border-left: 1px solid;
-      width: 2.5vmin;
-      height: 100%;
-      font-size: 1.5vmin;
-      display: flex;
-      align-items: center;
-      justify-content: center;
-      cursor: pointer;
-      opacity: 0.5;
-      transition: all 0.2s;
-      z-index: 10;
-    }
-    .remove-button:hover {
-      opacity: 1;
-      background: #ff00a0;
-      color: #fff;
     }
     .main-content {
       display: flex;
@@ -1096,7 +1415,7 @@ class AudioPromptController extends LitElement {
       font-size: 1.3vmin;
       text-transform: uppercase;
     }
-  `;
+  `];
 
   @property({type: String, reflect: true}) promptId = '';
   @property({type: String}) name = '';
@@ -1107,6 +1426,21 @@ class AudioPromptController extends LitElement {
   @property({type: Number}) variation = 0.1;
   @property({type: Object}) frequencyData: Uint8Array | null = null;
   @property({type: Number}) bpm = 120;
+  /** Whether a change to this prompt waits for a quantized launch. */
+  @property({type: Boolean, reflect: true}) queued = false;
+  /** The weight a timed transition is heading for, if any. */
+  @property({type: Number}) targetWeight: number | null = null;
+  @property({type: Object}) lfo: Lfo | null = null;
+  /** The weight with the LFO applied, when there is one. */
+  @property({type: Number}) modulatedWeight: number | null = null;
+  @state() private lfoOpen = false;
+  @property({type: Boolean}) muted = false;
+  @property({type: Boolean}) solo = false;
+  /** Whether mute or another prompt's solo keeps this one out of the payload. */
+  @property({type: Boolean, reflect: true}) silenced = false;
+  @property({type: Array}) tags: InstrumentTag[] = [];
+  /** Whether the card is picked for the next group (shift-click its handle). */
+  @property({type: Boolean, reflect: true}) selected = false;
 
   @query('weight-slider') private weightInput!: WeightSlider;
   @query('.waveform-canvas') private canvas!: HTMLCanvasElement;
@@ -1209,6 +1543,16 @@ class AudioPromptController extends LitElement {
     this.dispatchPromptChange();
   }
 
+  private dispatchToggle(change: Partial<Prompt>) {
+    this.dispatchEvent(
+      new CustomEvent<Partial<Prompt>>('prompt-changed', {
+        detail: change,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
   private dispatchPromptRemoved() {
     this.dispatchEvent(
       new CustomEvent<string>('prompt-removed', {
@@ -1220,7 +1564,7 @@ class AudioPromptController extends LitElement {
   }
 
   override render() {
-    const isActive = this.weight > 0.01;
+    const isActive = this.weight > 0.01 && !this.silenced;
     const promptClasses = classMap({ prompt: true, active: isActive });
     const style = styleMap({
       'border-color': this.color,
@@ -1245,6 +1589,12 @@ class AudioPromptController extends LitElement {
     return html`<div class=${promptClasses} style=${style}>
       <div class="header" style=${headerStyle}>
         <div class="drag-handle"></div>
+        <button class=${classMap({'toggle-button': true, mute: true, active: this.muted})} style=${removeButtonStyle}
+            title="Mute" @click=${() => this.dispatchToggle({muted: !this.muted})}>M</button>
+        <button class=${classMap({'toggle-button': true, solo: true, active: this.solo})} style=${removeButtonStyle}
+            title="Solo" @click=${() => this.dispatchToggle({solo: !this.solo})}>S</button>
+        <button class=${classMap({'toggle-button': true, lfo: true, active: !!this.lfo || this.lfoOpen})} style=${removeButtonStyle}
+            title="LFO" @click=${() => this.lfoOpen = !this.lfoOpen}>~</button>
         <button class="remove-button" style=${removeButtonStyle} @click=${this.dispatchPromptRemoved}>X</button>
       </div>
       <div class="main-content">
@@ -1253,10 +1603,15 @@ class AudioPromptController extends LitElement {
             id="weight"
             value=${this.weight}
             color=${this.color}
+            .target=${this.targetWeight}
+            .modulated=${this.modulatedWeight}
             @input=${this.updateWeight}></weight-slider>
         </div>
+        ${this.lfoOpen ? html`<lfo-editor .lfo=${this.lfo}
+            @lfo-change=${(e: CustomEvent<Lfo | null>) => this.dispatchToggle({lfo: e.detail})}></lfo-editor>` : ''}
         <div class="controls-column" style=${controlsStyle}>
             <div class="file-name" title=${this.name}>${this.name}</div>
+            ${renderTagChips(this.tags, (change) => this.dispatchToggle(change))}
             <canvas class="waveform-canvas" width="150" height="100"></canvas>
             <span id="text"
                 style=${textStyle}
@@ -1280,49 +1635,209 @@ class AudioPromptController extends LitElement {
   }
 }
 
-@customElement('fx-slider')
-class FxSlider extends LitElement {
-  static override styles = css`
-    .fx-slider-container {
-      display: contents; /* Part of the parent grid */
+/** A negative prompt: free text the music should avoid, with a weight. */
+@customElement('negative-prompt-controller')
+class NegativePromptController extends LitElement {
+  static override styles = [cardHeaderStyles, css`
+    :host {
+      height: 24vmin;
+      width: 25vmin;
+      position: absolute;
+      user-select: none;
+      font-size: 1.5vmin;
     }
-    input[type=range] {
-      -webkit-appearance: none;
+    .prompt {
+      position: relative;
+      height: 100%;
       width: 100%;
-      background: transparent;
-      grid-column: 2 / 3;
+      display: flex;
+      flex-direction: column;
+      box-sizing: border-box;
+      overflow: hidden;
+      border: 1px dashed;
+      background: repeating-linear-gradient(-45deg, #ff3e3e14 0 1vmin, rgba(13, 2, 26, 0.8) 1vmin 2vmin);
+      backdrop-filter: blur(5px);
     }
-    .disabled input[type=range] {
-        opacity: 0.5;
-        pointer-events: none;
+    .drag-handle {
+      background-color: rgba(255, 62, 62, 0.1);
     }
-    input[type=range]:focus {
-      outline: none;
+    .main-content {
+      display: flex;
+      flex-grow: 1;
+      overflow: hidden;
     }
-    input[type=range]::-webkit-slider-runnable-track {
+    .slider-column {
+      width: 6vmin;
+      border-right: 1px solid;
+    }
+    weight-slider {
       width: 100%;
-      height: 1px;
-      cursor: pointer;
-      background: #c0b4f8;
-      border: 1px solid #c0b4f8;
+      height: 100%;
+      box-sizing: border-box;
     }
-    input[type=range]::-webkit-slider-thumb {
-      border: 1px solid #a094d8;
-      height: 2vmin;
-      width: 2vmin;
-      border-radius: 50%;
-      background: radial-gradient(circle at 50% 40%, #e0d9ff, #c0b4f8);
-      box-shadow: 
-          inset 0 1px 1px rgba(255, 255, 255, 0.5),
-          0 2px 3px rgba(0,0,0,0.4),
-          0 0 8px #c0b4f8;
-      cursor: pointer;
-      -webkit-appearance: none;
-      margin-top: -1vmin;
+    .controls-column {
+      flex-grow: 1;
+      display: flex;
+      flex-direction: column;
+      padding: 0.8vmin;
+      gap: 0.5vmin;
+      min-width: 0;
     }
-    span {
-      grid-column: 3 / 4;
-      font-size: 1.3vmin;
+    .label {
+      font-family: 'Roboto Mono', monospace;
+      font-size: 1.2vmin;
+      letter-spacing: 0.2vmin;
+      opacity: 0.8;
+    }
+    #text {
+      font-family: 'Roboto Mono', monospace;
+      font-size: 1.8vmin;
+      color: #fff;
+      text-transform: uppercase;
+      word-wrap: break-word;
+      overflow-y: auto;
+      outline: none;
+      flex-grow: 1;
+      user-select: text;
+    }
+  `];
+
+  @property({type: String, reflect: true}) promptId = '';
+  @property({type: String}) text = '';
+  @property({type: Number}) weight = 0;
+  @property({type: String}) color = NEGATIVE_COLOR;
+  /** Whether a change to this prompt waits for a quantized launch. */
+  @property({type: Boolean, reflect: true}) queued = false;
+  /** The weight a timed transition is heading for, if any. */
+  @property({type: Number}) targetWeight: number | null = null;
+  @property({type: Object}) lfo: Lfo | null = null;
+  /** The weight with the LFO applied, when there is one. */
+  @property({type: Number}) modulatedWeight: number | null = null;
+  @state() private lfoOpen = false;
+  @property({type: Boolean}) muted = false;
+  @property({type: Boolean, reflect: true}) silenced = false;
+  @property({type: Boolean, reflect: true}) selected = false;
+
+  @query('weight-slider') private weightInput!: WeightSlider;
+  @query('#text') private textInput!: HTMLSpanElement;
+
+  private dispatchPromptChange(change: Partial<NegativePrompt>) {
+    this.dispatchEvent(
+      new CustomEvent<Partial<NegativePrompt>>('prompt-changed', {
+        detail: change,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private handleTextKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      this.updateText();
+      (e.target as HTMLElement).blur();
+    }
+  }
+
+  private updateText() {
+    const newText = this.textInput.textContent?.trim();
+    if (!newText || newText === this.text) {
+      this.textInput.textContent = this.text;
+      return;
+    }
+    this.text = newText;
+    this.dispatchPromptChange({text: newText});
+  }
+
+  private dispatchPromptRemoved() {
+    this.dispatchEvent(
+      new CustomEvent<string>('prompt-removed', {
+        detail: this.promptId,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  override render() {
+    const borderStyle = styleMap({'border-color': this.color});
+    return html`<div class="prompt" style=${styleMap({'border-color': this.color, color: this.color})}>
+      <div class="header" style=${borderStyle}>
+        <div class="drag-handle"></div>
+        <button class=${classMap({'toggle-button': true, mute: true, active: this.muted})} style=${borderStyle}
+            title="Mute" @click=${() => this.dispatchPromptChange({muted: !this.muted})}>M</button>
+        <button class=${classMap({'toggle-button': true, lfo: true, active: !!this.lfo || this.lfoOpen})} style=${borderStyle}
+            title="LFO" @click=${() => this.lfoOpen = !this.lfoOpen}>~</button>
+        <button class="remove-button" style=${borderStyle} @click=${this.dispatchPromptRemoved}>X</button>
+      </div>
+      <div class="main-content">
+        <div class="slider-column" style=${borderStyle}>
+          <weight-slider
+            value=${this.weight}
+            color=${this.color}
+            .target=${this.targetWeight}
+            .modulated=${this.modulatedWeight}
+            @input=${() => this.dispatchPromptChange({weight: this.weightInput.value})}></weight-slider>
+        </div>
+        ${this.lfoOpen ? html`<lfo-editor .lfo=${this.lfo}
+            @lfo-change=${(e: CustomEvent<Lfo | null>) => this.dispatchPromptChange({lfo: e.detail})}></lfo-editor>` : ''}
+        <div class="controls-column">
+          <div class="label">AVOID</div>
+          <span
+              id="text"
+              spellcheck="false"
+              contenteditable="plaintext-only"
+              @keydown=${this.handleTextKeyDown}
+              @blur=${this.updateText}>${this.text}</span>
+        </div>
+      </div>
+    </div>`;
+  }
+}
+
+@customElement('fx-slider')
+class FxSlider extends LitElement {
+  static override styles = css`
+    .fx-slider-container {
+      display: contents; /* Part of the parent grid */
+    }
+    input[type=range] {
+      -webkit-appearance: none;
+      width: 100%;
+      background: transparent;
+      grid-column: 2 / 3;
+    }
+    .disabled input[type=range] {
+        opacity: 0.5;
+        pointer-events: none;
+    }
+    input[type=range]:focus {
+      outline: none;
+    }
+    input[type=range]::-webkit-slider-runnable-track {
+      width: 100%;
+      height: 1px;
+      cursor: pointer;
+      background: #c0b4f8;
+      border: 1px solid #c0b4f8;
+    }
+    input[type=range]::-webkit-slider-thumb {
+      border: 1px solid #a094d8;
+      height: 2vmin;
+      width: 2vmin;
+      border-radius: 50%;
+      background: radial-gradient(circle at 50% 40%, #e0d9ff, #c0b4f8);
+      box-shadow: 
+          inset 0 1px 1px rgba(255, 255, 255, 0.5),
+          0 2px 3px rgba(0,0,0,0.4),
+          0 0 8px #c0b4f8;
+      cursor: pointer;
+      -webkit-appearance: none;
+      margin-top: -1vmin;
+    }
+    span {
+      grid-column: 3 / 4;
+      font-size: 1.3vmin;
     }
   `;
   @property() label = '';
@@ -1366,6 +1881,494 @@ class FxSlider extends LitElement {
   }
 }
 
+interface DiagnosticsSnapshot {
+  deck: DeckId;
+  backend: string;
+  model: string;
+  connectionStatus: ConnectionStatus;
+  playbackState: PlaybackState;
+  secondsSinceSetup: number | null;
+  chunksPerSecond: number;
+  bufferDepth: number;
+  targetBufferTime: number;
+  jitterTime: number;
+  underruns: number;
+  stream: StreamStats;
+  filteredPrompts: FilteredPromptRecord[];
+  lastPromptPayload: SentPayload | null;
+  lastConfigPayload: SentPayload | null;
+  events: DiagnosticEvent[];
+}
+
+/**
+ * The look shared by the drawers. A drawer opens on the right, or on the left
+ * with `side="left"`; `--drawer-offset` moves it in, e.g. past another drawer
+ * open on the same side, and `--drawer-accent` sets its edge color.
+ */
+const drawerStyles = css`
+  :host {
+    --drawer-accent: #6c52ff;
+    position: fixed;
+    top: 0;
+    right: var(--drawer-offset, 0);
+    bottom: 0;
+    width: 40vmin;
+    z-index: 1000;
+    background: rgba(13, 2, 26, 0.92);
+    border-left: 1px solid var(--drawer-accent);
+    box-shadow: 0 0 15px color-mix(in srgb, var(--drawer-accent) 50%, transparent);
+    backdrop-filter: blur(10px);
+    color: #c0b4f8;
+    font-family: 'Roboto Mono', monospace;
+    font-size: 1.4vmin;
+    display: flex;
+    flex-direction: column;
+  }
+  :host([side='left']) {
+    right: auto;
+    left: var(--drawer-offset, 0);
+    border-left: none;
+    border-right: 1px solid var(--drawer-accent);
+  }
+  .header {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    padding: 1vmin;
+    border-bottom: 1px solid var(--drawer-accent);
+    color: #fff;
+    font-weight: bold;
+    text-transform: uppercase;
+  }
+  .body {
+    flex-grow: 1;
+    overflow-y: auto;
+    padding: 1vmin;
+  }
+  input, select {
+    background: rgba(13, 2, 26, 0.7);
+    border: 1px solid #6c52ff;
+    color: #c0b4f8;
+    font-family: 'Roboto Mono', monospace;
+    font-size: 1.4vmin;
+    padding: 0.3vmin;
+  }
+  button {
+    background: rgba(13, 2, 26, 0.5);
+    border: 1px solid #6c52ff;
+    color: #c0b4f8;
+    cursor: pointer;
+    text-transform: uppercase;
+    font-family: 'Roboto Mono', monospace;
+    font-size: 1.3vmin;
+    padding: 0.5vmin 1vmin;
+  }
+  button:hover {
+    background: rgba(108, 82, 255, 0.3);
+    color: #fff;
+  }
+`;
+
+/** How far a drawer moves in to clear the one open before it on its side. */
+const DRAWER_WIDTH = '40vmin';
+
+/** A drawer showing live session telemetry. */
+@customElement('diagnostics-panel')
+class DiagnosticsPanel extends LitElement {
+  static override styles = [drawerStyles, css`
+    h3 {
+      font-size: 1.4vmin;
+      text-transform: uppercase;
+      color: #fff;
+      margin: 1.5vmin 0 0.5vmin 0;
+    }
+    dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.3vmin 1vmin;
+      margin: 0;
+    }
+    dt {
+      opacity: 0.7;
+    }
+    dd {
+      margin: 0;
+    }
+    pre {
+      white-space: pre-wrap;
+      word-break: break-all;
+      background: #0005;
+      border: 1px solid #6c52ff40;
+      padding: 0.5vmin;
+      margin: 0;
+      max-height: 20vmin;
+      overflow-y: auto;
+    }
+    ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+    li {
+      padding: 0.3vmin 0;
+      border-bottom: 1px solid #6c52ff20;
+    }
+    .warn {
+      color: #ffdd28;
+    }
+    .error {
+      color: #ff3e3e;
+    }
+  `];
+
+  @property({type: Object}) snapshot: DiagnosticsSnapshot | null = null;
+
+  private dispatch(name: string) {
+    this.dispatchEvent(new CustomEvent(name, {bubbles: true, composed: true}));
+  }
+
+  private formatTime(time: number) {
+    return new Date(time).toLocaleTimeString();
+  }
+
+  override render() {
+    const d = this.snapshot;
+    if (!d) return html``;
+    return html`
+      <div class="header">
+        <span>Diagnostics</span>
+        <span>
+          <button @click=${() => this.dispatch('diagnostics-export')}>Export</button>
+          <button @click=${() => this.dispatch('diagnostics-close')}>X</button>
+        </span>
+      </div>
+      <div class="body">
+        <h3>Connection</h3>
+        <dl>
+          <dt>Deck</dt><dd>${d.deck}</dd>
+          <dt>Backend</dt><dd>${d.backend} (${d.model})</dd>
+          <dt>State</dt><dd>${d.connectionStatus} / ${d.playbackState}</dd>
+          <dt>Since setup</dt><dd>${d.secondsSinceSetup === null ? '-' : `${d.secondsSinceSetup.toFixed(0)}s`}</dd>
+        </dl>
+        <h3>Stream</h3>
+        <dl>
+          <dt>Chunks/s</dt><dd>${d.chunksPerSecond.toFixed(2)}</dd>
+          <dt>Headroom</dt><dd>${d.bufferDepth.toFixed(2)}s (target ${d.targetBufferTime.toFixed(2)}s)</dd>
+          <dt>Jitter</dt><dd>${(d.jitterTime * 1000).toFixed(0)}ms</dd>
+          <dt>Under-runs</dt><dd>${d.underruns}</dd>
+          <dt>Samples</dt><dd>${d.stream.samplesReceived} rcvd / ${d.stream.samplesScheduled} sched</dd>
+          <dt>Gaps</dt><dd>${d.stream.gaps} (${d.stream.gapTime.toFixed(2)}s)</dd>
+          <dt>Repeated chunks</dt><dd>${d.stream.duplicates}</dd>
+        </dl>
+        <h3>Filtered prompts</h3>
+        ${d.filteredPrompts.length === 0 ? html`<div>None</div>` : html`
+          <ul>
+            ${d.filteredPrompts.map((f) => html`<li>${this.formatTime(f.time)} "${f.text}": ${f.reason}</li>`)}
+          </ul>`}
+        <h3>Last prompts sent ${d.lastPromptPayload ? `@ ${this.formatTime(d.lastPromptPayload.time)}` : ''}</h3>
+        <pre>${d.lastPromptPayload ? JSON.stringify(d.lastPromptPayload.payload, null, 1) : '-'}</pre>
+        <h3>Last config sent ${d.lastConfigPayload ? `@ ${this.formatTime(d.lastConfigPayload.time)}` : ''}</h3>
+        <pre>${d.lastConfigPayload ? JSON.stringify(d.lastConfigPayload.payload, null, 1) : '-'}</pre>
+        <h3>Events</h3>
+        <ul>
+          ${[...d.events].reverse().map((e) => html`<li class=${e.level}>${this.formatTime(e.time)} ${e.message}</li>`)}
+        </ul>
+      </div>
+    `;
+  }
+}
+
+interface FilteredPromptEntry {
+  /** The text as the server filtered it, modifiers included. */
+  text: string;
+  reason: string;
+  /** Text of the cards the filter applies to, or '' if none are left. */
+  promptText: string;
+  cardCount: number;
+}
+
+/** A drawer listing filtered prompts, to edit and resubmit or clear them. */
+@customElement('filtered-prompts-panel')
+class FilteredPromptsPanel extends LitElement {
+  static override styles = [drawerStyles, css`
+    :host {
+      --drawer-accent: #ff3e3e;
+    }
+    .entry {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5vmin;
+      padding: 1vmin 0;
+      border-bottom: 1px solid #6c52ff40;
+    }
+    .text {
+      color: #fff;
+      word-break: break-word;
+    }
+    .reason {
+      color: #ff3e3e;
+    }
+    .cards {
+      opacity: 0.7;
+    }
+    .actions {
+      display: flex;
+      gap: 1vmin;
+    }
+  `];
+
+  @property({type: Array}) entries: FilteredPromptEntry[] = [];
+
+  private dispatch<T>(name: string, detail?: T) {
+    this.dispatchEvent(new CustomEvent<T>(name, {detail, bubbles: true, composed: true}));
+  }
+
+  private resubmit(entry: FilteredPromptEntry, e: Event) {
+    const input = (e.target as HTMLElement).closest('.entry')?.querySelector('input');
+    const newText = input?.value.trim();
+    if (!newText) return;
+    this.dispatch('filtered-prompt-resubmit', {text: entry.text, newText});
+  }
+
+  override render() {
+    return html`
+      <div class="header">
+        <span>Filtered prompts</span>
+        <span>
+          ${this.entries.length ? html`<button @click=${() => this.dispatch('filtered-prompts-clear-all')}>Clear all</button>` : ''}
+          <button @click=${() => this.dispatch('filtered-prompts-close')}>X</button>
+        </span>
+      </div>
+      <div class="body">
+        ${this.entries.length === 0 ? html`<div>Nothing has been filtered.</div>` : ''}
+        ${this.entries.map((entry) => html`
+          <div class="entry">
+            <div class="text">"${entry.text}"</div>
+            <div class="reason">${entry.reason || 'No reason given'}</div>
+            <div class="cards">${entry.cardCount === 0 ? 'No card uses this text any more.' : `${entry.cardCount} card${entry.cardCount > 1 ? 's' : ''} held back by the filter.`}</div>
+            ${entry.cardCount > 0 ? html`
+              <input type="text" title="Edit the prompt before resubmitting" .value=${entry.promptText}
+                  @keydown=${(e: KeyboardEvent) => e.key === 'Enter' && this.resubmit(entry, e)}>` : ''}
+            <div class="actions">
+              ${entry.cardCount > 0 ? html`<button @click=${(e: Event) => this.resubmit(entry, e)}>Resubmit</button>` : ''}
+              <button title="Send the prompt again as it is" @click=${() => this.dispatch('filtered-prompt-clear', entry.text)}>Clear filter</button>
+            </div>
+          </div>`)}
+      </div>
+    `;
+  }
+}
+
+/** The data type of a library entry dragged onto the canvas. */
+const LIBRARY_DRAG_TYPE = 'application/x-prompt-library-entry';
+
+/** A drawer to search the prompt library and drag entries onto the canvas. */
+@customElement('prompt-library-panel')
+class PromptLibraryPanel extends LitElement {
+  static override styles = [drawerStyles, css`
+    :host {
+      --drawer-accent: #00f5d4;
+    }
+    .filters {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.5vmin;
+      padding: 1vmin;
+      border-bottom: 1px solid #6c52ff40;
+    }
+    .filters input[type='search'] {
+      flex-basis: 100%;
+    }
+    .entry {
+      display: flex;
+      align-items: center;
+      gap: 0.5vmin;
+      padding: 0.6vmin 0;
+      border-bottom: 1px solid #6c52ff40;
+      cursor: grab;
+    }
+    .swatch {
+      width: 1vmin;
+      align-self: stretch;
+      flex-shrink: 0;
+    }
+    .info {
+      flex-grow: 1;
+      min-width: 0;
+    }
+    .text {
+      color: #fff;
+      word-break: break-word;
+    }
+    .meta {
+      opacity: 0.6;
+      font-size: 1.2vmin;
+    }
+    .favorite {
+      color: #ffdd28;
+    }
+    button.active {
+      border-color: #ffdd28;
+      color: #ffdd28;
+    }
+  `];
+
+  @property({type: Array}) entries: LibraryEntry[] = [];
+  @state() private filter: LibraryFilter = {query: '', category: '', tag: '', favoritesOnly: false};
+
+  private dispatch<T>(name: string, detail?: T) {
+    this.dispatchEvent(new CustomEvent<T>(name, {detail, bubbles: true, composed: true}));
+  }
+
+  private setFilter(changes: Partial<LibraryFilter>) {
+    this.filter = {...this.filter, ...changes};
+  }
+
+  private handleDragStart(entry: LibraryEntry, e: DragEvent) {
+    e.dataTransfer?.setData(LIBRARY_DRAG_TYPE, entry.id);
+    e.dataTransfer?.setData('text/plain', entry.text);
+  }
+
+  override render() {
+    const categories = [...new Set(this.entries.map((e) => e.category))].sort();
+    const tags = [...new Set(this.entries.flatMap((e) => e.tags))].sort();
+    const results = searchLibrary(this.entries, this.filter);
+    return html`
+      <div class="header">
+        <span>Prompt library</span>
+        <span>
+          <button title="Add entries from a JSON file" @click=${() => this.dispatch('library-import')}>Import</button>
+          <button title="Save the library as JSON" @click=${() => this.dispatch('library-export')}>Export</button>
+          <button @click=${() => this.dispatch('library-close')}>X</button>
+        </span>
+      </div>
+      <div class="filters">
+        <input type="search" placeholder="Search" .value=${this.filter.query}
+            @input=${(e: Event) => this.setFilter({query: (e.target as HTMLInputElement).value})}>
+        <select .value=${this.filter.category} @change=${(e: Event) => this.setFilter({category: (e.target as HTMLSelectElement).value})}>
+          <option value="">All categories</option>
+          ${categories.map((c) => html`<option value=${c} ?selected=${c === this.filter.category}>${c}</option>`)}
+        </select>
+        <select .value=${this.filter.tag} @change=${(e: Event) => this.setFilter({tag: (e.target as HTMLSelectElement).value})}>
+          <option value="">All tags</option>
+          ${tags.map((t) => html`<option value=${t} ?selected=${t === this.filter.tag}>${t}</option>`)}
+        </select>
+        <button class=${classMap({active: this.filter.favoritesOnly})}
+            @click=${() => this.setFilter({favoritesOnly: !this.filter.favoritesOnly})}>★ only</button>
+      </div>
+      <div class="body">
+        ${results.length === 0 ? html`<div>No prompts match.</div>` : ''}
+        ${results.map((entry) => html`
+          <div class="entry" draggable="true" title="Drag onto the canvas to add a card"
+              @dragstart=${(e: DragEvent) => this.handleDragStart(entry, e)}>
+            <div class="swatch" style=${styleMap({background: entry.color ?? 'transparent'})}></div>
+            <div class="info">
+              <div class="text">${entry.text}</div>
+              <div class="meta">${entry.category}${entry.tags.length ? ` · ${entry.tags.join(', ')}` : ''}</div>
+            </div>
+            <button class=${classMap({favorite: entry.favorite})} title="Favorite"
+                @click=${() => this.dispatch('library-toggle-favorite', entry.id)}>${entry.favorite ? '★' : '☆'}</button>
+            <button title="Add a card" @click=${() => this.dispatch('library-add', entry.id)}>+</button>
+            ${entry.builtin ? '' : html`<button title="Remove from the library"
+                @click=${() => this.dispatch('library-remove', entry.id)}>X</button>`}
+          </div>`)}
+      </div>
+    `;
+  }
+}
+
+/** One entry of the prompt payload and the UI control behind it. */
+interface CompiledPrompt {
+  text?: string;
+  audio?: string; // base64 encoded audio
+  weight: number;
+  /** The control the entry comes from, e.g. a card or a mute button. */
+  source: string;
+  /** How the control shaped the entry, e.g. the modifier phrases added. */
+  detail?: string;
+  /** Why the entry is left out of the payload, if it is. */
+  excluded?: string;
+}
+
+/** A drawer showing the weighted prompts that will be sent. */
+@customElement('payload-preview-panel')
+class PayloadPreviewPanel extends LitElement {
+  static override styles = [drawerStyles, css`
+    .entry {
+      padding: 0.8vmin 0;
+      border-bottom: 1px solid #6c52ff40;
+    }
+    .entry.excluded {
+      opacity: 0.45;
+    }
+    .row {
+      display: flex;
+      justify-content: space-between;
+      gap: 1vmin;
+    }
+    .text {
+      color: #fff;
+      word-break: break-word;
+    }
+    .share {
+      white-space: nowrap;
+    }
+    .bar {
+      height: 0.4vmin;
+      margin: 0.4vmin 0;
+      background: #ff00a0;
+      box-shadow: 0 0 4px #ff00a0;
+    }
+    .source {
+      opacity: 0.8;
+    }
+    .detail {
+      opacity: 0.6;
+    }
+  `];
+
+  @property({type: Array}) entries: CompiledPrompt[] = [];
+  @property({type: String}) deck = '';
+
+  override render() {
+    const included = this.entries.filter((e) => !e.excluded);
+    const total = included.reduce((sum, e) => sum + e.weight, 0);
+    return html`
+      <div class="header">
+        <span>Prompt payload${this.deck ? ` (deck ${this.deck})` : ''}</span>
+        <button @click=${() => this.dispatchEvent(new CustomEvent('payload-preview-close', {bubbles: true, composed: true}))}>X</button>
+      </div>
+      <div class="body">
+        <div>${included.length} weighted prompts, total weight ${total.toFixed(2)}</div>
+        ${this.entries.map((e) => {
+          const share = !e.excluded && total > 0 ? e.weight / total : 0;
+          return html`<div class=${classMap({entry: true, excluded: !!e.excluded})}>
+            <div class="row">
+              <span class="text">${e.audio !== undefined ? `<audio, ${e.audio.length} base64 chars>` : `"${e.text}"`}</span>
+              <span class="share">${e.excluded ? 'not sent' : `${e.weight.toFixed(2)} · ${(share * 100).toFixed(1)}%`}</span>
+            </div>
+            ${e.excluded ? '' : html`<div class="bar" style=${styleMap({width: `${share * 100}%`})}></div>`}
+            <div class="source">${e.source}${e.excluded ? `: ${e.excluded}` : ''}</div>
+            ${e.detail ? html`<div class="detail">${e.detail}</div>` : ''}
+          </div>`;
+        })}
+      </div>
+    `;
+  }
+}
+
+/** What undo and redo bring back: the cards, groups and config of each deck, and the Master FX. */
+interface EditState {
+  decks: {prompts: Prompt[]; groups: PromptGroup[]; config: DeckConfig}[];
+  fx: MasterFx;
+}
+
+/** Compares edit states, leaving out audio data, which never changes on a card. */
+function sameEditState(a: EditState, b: EditState) {
+  const withoutAudio = (key: string, value: unknown) => key === 'data' || key === 'waveformData' ? undefined : value;
+  return JSON.stringify(a, withoutAudio) === JSON.stringify(b, withoutAudio);
+}
+
 /** Component for the PromptDJ UI. */
 @customElement('prompt-dj')
 class PromptDj extends LitElement {
@@ -1481,6 +2484,12 @@ class PromptDj extends LitElement {
         flex-direction: row;
         align-items: center;
     }
+    .buffer-readout {
+        color: #c0b4f8;
+        font-size: 1.3vmin;
+        white-space: nowrap;
+        user-select: none;
+    }
     .console-section.master-visualizer {
         flex-grow: 1;
         padding: 0;
@@ -1545,6 +2554,39 @@ class PromptDj extends LitElement {
         font-size: 1.3vmin;
         font-family: 'Roboto Mono', monospace;
     }
+    .kaoss-controls input {
+        width: 7vmin;
+        background: rgba(13, 2, 26, 0.7);
+        border: 1px solid #6c52ff;
+        color: #c0b4f8;
+        font-family: 'Roboto Mono', monospace;
+        font-size: 1.3vmin;
+    }
+    .morph-corners {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+    }
+    .morph-corners select {
+        min-width: 0;
+        font-size: 1.2vmin;
+    }
+    .morph-label {
+        position: absolute;
+        max-width: 45%;
+        padding: 0.3vmin 0.6vmin;
+        color: #00f5d4;
+        font-family: 'Roboto Mono', monospace;
+        font-size: 1.2vmin;
+        text-transform: uppercase;
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        pointer-events: none;
+    }
+    .morph-label.tl { top: 0; left: 0; }
+    .morph-label.tr { top: 0; right: 0; }
+    .morph-label.bl { bottom: 0; left: 0; }
+    .morph-label.br { bottom: 0; right: 0; }
     .kaoss-controls button.active {
         background: #ff00a0;
         color: #fff;
@@ -1596,6 +2638,121 @@ class PromptDj extends LitElement {
         box-shadow: 0 0 5px #6c52ff;
     }
 
+    .engine-controls select, .engine-controls input {
+        background: rgba(13, 2, 26, 0.7);
+        border: 1px solid #6c52ff;
+        color: #c0b4f8;
+        font-family: 'Roboto Mono', monospace;
+        font-size: 1.5vmin;
+        padding: 0.2vmin;
+        box-shadow: inset 0 0 2px #6c52ff80;
+    }
+    .engine-controls input:disabled {
+        opacity: 0.5;
+    }
+    .glide-controls, .surprise-controls {
+        display: flex;
+        gap: 0.5vmin;
+    }
+    .group-region {
+        position: absolute;
+        top: 0;
+        left: 0;
+        box-sizing: border-box;
+        border: 1px dashed;
+        background: rgba(108, 82, 255, 0.06);
+        pointer-events: none;
+    }
+    .group-region.muted {
+        opacity: 0.4;
+    }
+    .group-label {
+        display: flex;
+        align-items: center;
+        gap: 0.5vmin;
+        height: 3.2vmin;
+        padding: 0 0.5vmin;
+        cursor: grab;
+        pointer-events: auto;
+        color: var(--group-color);
+        font-family: 'Roboto Mono', monospace;
+    }
+    .group-label .group-name {
+        width: 12vmin;
+        background: transparent;
+        border: none;
+        color: var(--group-color);
+        font-family: 'Roboto Mono', monospace;
+        font-size: 1.4vmin;
+        text-transform: uppercase;
+    }
+    .group-label input[type='range'] {
+        width: 10vmin;
+        accent-color: var(--group-color);
+    }
+    .group-label .mute-button {
+        padding: 0.2vmin 0.6vmin;
+    }
+    .glide-controls input, .glide-controls select,
+    .surprise-controls input, .surprise-controls select {
+        width: 6vmin;
+        background: rgba(13, 2, 26, 0.7);
+        border: 1px solid #6c52ff;
+        color: #c0b4f8;
+        font-family: 'Roboto Mono', monospace;
+        font-size: 1.3vmin;
+        padding: 0.2vmin;
+    }
+    .deck-tabs {
+        display: grid;
+        grid-template-columns: repeat(3, 1fr);
+        gap: 1vmin;
+    }
+    .scene-slots {
+        display: grid;
+        grid-template-columns: repeat(${SCENE_SLOTS / 2}, 1fr);
+        gap: 0.5vmin;
+    }
+    .scene-slots .mute-button:not(.filled) {
+        opacity: 0.4;
+    }
+    .scene-options {
+        display: flex;
+        align-items: center;
+        gap: 0.5vmin;
+        color: #c0b4f8;
+        font-size: 1.2vmin;
+    }
+    .scene-options input {
+        width: 5vmin;
+        background: rgba(13, 2, 26, 0.7);
+        border: 1px solid #6c52ff;
+        color: #c0b4f8;
+        font-family: 'Roboto Mono', monospace;
+        font-size: 1.3vmin;
+    }
+    .main-controls .mute-button:disabled,
+    .deck-tabs .mute-button:disabled {
+        opacity: 0.4;
+        cursor: default;
+    }
+    .deck-controls select {
+        background: rgba(13, 2, 26, 0.7);
+        border: 1px solid #6c52ff;
+        color: #c0b4f8;
+        font-family: 'Roboto Mono', monospace;
+        font-size: 1.5vmin;
+        padding: 0.2vmin;
+        box-shadow: inset 0 0 2px #6c52ff80;
+    }
+    .crossfader {
+        width: 100%;
+        accent-color: #ff00a0;
+    }
+    .deck-controls select:disabled, .crossfader:disabled {
+        opacity: 0.5;
+    }
+
     .mute-controls {
         display: grid;
         grid-template-columns: repeat(3, 1fr);
@@ -1627,6 +2784,10 @@ class PromptDj extends LitElement {
         color: #fff;
         box-shadow: 0 0 10px #ff00a0;
     }
+    .mute-button.queued, .fx-pad.queued {
+        border-style: dashed;
+        border-color: #ffdd28;
+    }
     .performance-fx-pads {
       display: grid;
       grid-template-columns: repeat(3, 1fr);
@@ -1636,33 +2797,64 @@ class PromptDj extends LitElement {
     }
   `;
 
-  @property({
-    type: Object,
-    attribute: false,
-  })
-  private prompts: Map<string, Prompt>;
+  private decks: Deck<Prompt>[];
+  @state() private editDeckId: DeckId = 'A'; // the deck the canvas and music controls act on
+  @state() private isDualDeck = false;
+  @state() private crossfade = 0; // 0 is deck A only, 1 is deck B only
+  @state() private crossfadeCurve: CrossfadeCurve = 'power';
   private nextPromptId: number; // Monotonically increasing ID for new prompts
-  private session: LiveMusicSession;
+  @state() private providerSettings: MusicProviderSettings = getInitialProviderSettings();
+  private provider: MusicProvider = createMusicProvider(this.providerSettings);
   // Fix: Add missing `sampleRate` property. The model outputs audio at 48kHz.
   private readonly sampleRate = 48000;
   // Fix: Cast window to `any` to allow for vendor-prefixed `webkitAudioContext`.
   private audioContext = new (window.AudioContext || (window as any).webkitAudioContext)(
     {sampleRate: this.sampleRate},
   );
-  private outputNode: GainNode;
+  private crossfader: GainNode; // Both decks mix here, ahead of the master FX.
   private analyserNode: AnalyserNode;
   @state() private frequencyData: Uint8Array;
   @state() private timeDomainData: Uint8Array;
   
-  private nextStartTime = 0;
-  private readonly bufferTime = 2; // adds an audio buffer in case of netowrk latency
-  @state() private playbackState: PlaybackState = 'stopped';
+  @state() private isDiagnosticsVisible = false;
   @property({type: Object})
-  private filteredPrompts = new Set<string>();
-  private connectionError = true;
+  private filteredPrompts = new Map<string, string>(); // filtered text -> reason
+  @state() private isFilteredPanelVisible = false;
+  @state() private isPayloadPreviewVisible = false;
+  // Prompt library
+  @state() private library: LibraryEntry[] = getStoredLibrary();
+  @state() private isLibraryVisible = false;
+  // Surprise generator; an empty seed picks a new one each time
+  @state() private surpriseCount = 4;
+  @state() private surpriseEnergy: Energy = 'medium';
+  @state() private surpriseKeepDrums = false;
+  @state() private surpriseSeed: number | null = null;
+  @state() private launchQuantize: LaunchQuantize = 'off';
+  @state() private modifierPacks: ModifierPack[] = [...BUILTIN_MODIFIER_PACKS, ...getStoredModifierPacks()];
+  // Timed weight transitions
+  @state() private isGlideOn = false;
+  @state() private glideLength = 8;
+  @state() private glideUnit: TransitionUnit = 'bars';
+  private transitionTimer: number | null = null;
+  private lfoTimer: number | null = null;
+  // Scenes
+  @state() private scenes: (Scene<ProjectPrompt> | null)[];
+  @state() private isSceneStoreArmed = false;
+  @state() private sceneMorphBars = 0; // 0 recalls instantly
+  @state() private activeScene: number | null = null;
+  private sceneMorph: {from: MasterFx; to: MasterFx; startTime: number; duration: number; removeIds: string[]; deck: Deck<Prompt>} | null = null;
+  private sceneMorphTimer: number | null = null;
+  // Undo history
+  private history: EditHistory<EditState>;
+  private pendingCheckpoint: {key: string | null} | null = null;
+
+  // Prompt groups, per deck
+  private deckGroups = new Map<DeckId, Map<string, PromptGroup>>();
+  @state() private selectedPromptIds = new Set<string>();
 
   // Drag and Drop State
   private draggedPromptId: string | null = null;
+  private draggedGroupId: string | null = null;
   private dragOffsetX = 0;
   private dragOffsetY = 0;
 
@@ -1680,6 +2872,12 @@ class PromptDj extends LitElement {
   @query('#kaoss-pad') private kaossPadEl!: HTMLDivElement;
   @query('#kaoss-canvas') private kaossCanvas!: HTMLCanvasElement;
   private kaossLastTap = 0; // For double-tap detection
+  // Vector morph: the pad blends the weights of the prompts pinned to its corners, per deck
+  private deckMorphCorners = new Map<DeckId, Record<MorphCorner, string | null>>();
+  @state() private morphSmoothing = 300; // ms
+  private morphXY = { x: 0.5, y: 0.5 }; // smoothed pointer position
+  private morphTimer: number | null = null;
+  private morphLastTick = 0;
 
   // Audio FX properties
   @state() private lowPassFreq = 22050;
@@ -1706,14 +2904,6 @@ class PromptDj extends LitElement {
   @state() private isFxPanelVisible = true;
   
   // Music properties
-  @state() private bpm = 120;
-  @state() private musicalKey = 'C Major';
-  @state() private noBass = false;
-  @state() private noDrums = false;
-  @state() private noMelody = false;
-  @state() private temperature = 0.75;
-  @state() private topK = 40;
-  @state() private guidanceScale = 7;
 
   private masterOut: GainNode;
   private lowPassFilter: BiquadFilterNode;
@@ -1758,13 +2948,24 @@ class PromptDj extends LitElement {
   @query('toast-message') private toastMessage!: ToastMessage;
   @query('#three-canvas') private threeCanvas!: HTMLCanvasElement;
   
-  constructor(prompts: Map<string, Prompt>) {
+  constructor(promptsA: Map<string, Prompt>, promptsB: Map<string, Prompt>, scenes: (Scene<ProjectPrompt> | null)[]) {
     super();
-    this.prompts = prompts;
-    this.nextPromptId = this.prompts.size;
+    this.scenes = scenes;
     
     // Create audio nodes
-    this.outputNode = this.audioContext.createGain();
+    this.crossfader = this.audioContext.createGain();
+    const host = this.createDeckHost();
+    this.decks = [
+      new Deck('A', 'prompts', this.audioContext, host, promptsA),
+      new Deck('B', 'prompts-deck-b', this.audioContext, host, promptsB),
+    ];
+    for (const deck of this.decks) {
+      deck.output.connect(this.crossfader);
+      this.deckGroups.set(deck.id, getStoredGroups(deck.storageKey));
+    }
+    this.nextPromptId = 0;
+    this.reservePromptIds([...promptsA.keys(), ...promptsB.keys()]);
+    this.history = new EditHistory(this.captureState(), sameEditState);
     this.masterOut = this.audioContext.createGain();
     this.analyserNode = this.audioContext.createAnalyser();
     this.analyserNode.fftSize = 2048;
@@ -1815,7 +3016,7 @@ class PromptDj extends LitElement {
     this.vinylNoiseNode.start();
 
     // --- Connect Serial Audio Graph ---
-    this.outputNode.connect(this.lowPassFilter);
+    this.crossfader.connect(this.lowPassFilter);
     this.lowPassFilter.connect(this.highPassFilter);
     
     // Bit Crusher Stage
@@ -1865,9 +3066,74 @@ class PromptDj extends LitElement {
     this.analyserNode.connect(this.masterOut);
     this.masterOut.connect(this.audioContext.destination);
 
-    this.updateFxChain();
-    this.createReverbImpulseResponse();
-    this.createVinylNoiseBuffer();
+    this.updateCrossfader();
+    this.updateFxChain();
+    this.createReverbImpulseResponse();
+    this.createVinylNoiseBuffer();
+  }
+
+  private get editDeck() {
+    return this.decks.find((deck) => deck.id === this.editDeckId)!;
+  }
+
+  /** The prompts of the deck being edited. */
+  private get prompts() {
+    return this.editDeck.prompts;
+  }
+
+  private set prompts(prompts: Map<string, Prompt>) {
+    this.editDeck.prompts = prompts;
+    this.requestUpdate();
+  }
+
+  /** The prompt groups of the deck being edited. */
+  private get groups() {
+    return this.deckGroups.get(this.editDeckId)!;
+  }
+
+  private set groups(groups: Map<string, PromptGroup>) {
+    this.deckGroups.set(this.editDeckId, groups);
+    setStoredGroups(groups, this.editDeck.storageKey);
+    this.checkpoint('groups');
+    this.requestUpdate();
+  }
+
+  /** The prompts pinned to the morph pad corners for the deck being edited. */
+  private get morphCorners(): Record<MorphCorner, string | null> {
+    return this.deckMorphCorners.get(this.editDeckId) ?? {tl: null, tr: null, bl: null, br: null};
+  }
+
+  private set morphCorners(corners: Record<MorphCorner, string | null>) {
+    this.deckMorphCorners.set(this.editDeckId, corners);
+    this.requestUpdate();
+  }
+
+  private createDeckHost(): DeckHost<Prompt> {
+    return {
+      getProvider: () => this.provider,
+      buildWeightedPrompts: (deck) => this.buildWeightedPrompts(deck),
+      onFilteredPrompt: (deck, text, reason) => {
+        this.filteredPrompts = new Map([...this.filteredPrompts, [text, reason]]);
+        this.notify(deck, `Prompt filtered: ${reason || text}`);
+      },
+      onTransportStarted: () => this.updateLfoTimer(),
+      onTransportStopped: () => {
+        if (this.isRecording && !this.decks.some((deck) => deck.isActive)) this.handleRecord();
+      },
+      notify: (deck, message) => this.notify(deck, message),
+      requestUpdate: () => this.requestUpdate(),
+    };
+  }
+
+  private notify(deck: Deck<Prompt>, message: string) {
+    this.toastMessage.show(this.isDualDeck ? `Deck ${deck.id}: ${message}` : message);
+  }
+
+  private updateCrossfader() {
+    const [a, b] = this.isDualDeck ? crossfadeGains(this.crossfade, this.crossfadeCurve) : [1, 0];
+    const time = this.audioContext.currentTime;
+    this.decks[0].output.gain.setTargetAtTime(a, time, 0.01);
+    this.decks[1].output.gain.setTargetAtTime(b, time, 0.01);
   }
 
   private bitCrusherProcess(e: AudioProcessingEvent) {
@@ -1963,32 +3229,35 @@ class PromptDj extends LitElement {
   }
 
   override async firstUpdated() {
-    await this.connectToSession();
-    this.setMusicGenerationConfig();
-    this.setSessionPrompts();
+    promptStore.setErrorHandler((message) => this.toastMessage.show(message));
+    // Deck B connects once dual-deck mode is switched on.
+    await this.decks[0].start();
     this.initThree();
     this._animateLoop();
     this.layoutInitialPrompts();
+    this.history.reset(this.captureState());
+    this.updateLfoTimer();
     window.addEventListener('resize', this.handleResize.bind(this));
+    window.addEventListener('keydown', this.handleKeyDown);
   }
 
   private layoutInitialPrompts() {
-    // If prompts are already stored in localStorage, the user has likely positioned them.
+    // If prompts are already stored, the user has likely positioned them.
     // This function will only re-layout the initial default prompts on the very first load.
-    if (localStorage.getItem('prompts')) {
-      return;
-    }
-
-    const newPrompts = new Map(this.prompts);
-    let i = 0;
-    for (const prompt of newPrompts.values()) {
-        // Recalculate positions based on the now-correct window dimensions.
-        prompt.x = window.innerWidth * 0.2 + (i * window.innerWidth * 0.15);
-        prompt.y = window.innerHeight * 0.4;
-        i++;
+    for (const deck of this.decks) {
+      if (promptStore.isStored(deck.storageKey)) continue;
+
+      const newPrompts = new Map(deck.prompts);
+      let i = 0;
+      for (const prompt of newPrompts.values()) {
+          // Recalculate positions based on the now-correct window dimensions.
+          prompt.x = window.innerWidth * 0.2 + (i * window.innerWidth * 0.15);
+          prompt.y = window.innerHeight * 0.4;
+          i++;
+      }
+      deck.prompts = newPrompts;
+      setStoredPrompts(deck.prompts, deck.storageKey); // Save the corrected initial layout.
     }
-    this.prompts = newPrompts;
-    setStoredPrompts(this.prompts); // Save the corrected initial layout.
   }
   
   disconnectedCallback() {
@@ -2157,97 +3426,74 @@ class PromptDj extends LitElement {
     this.drawKaossVisuals();
   }
 
-  private async connectToSession() {
-    this.session = await ai.live.music.connect({
-      model: model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          console.log('Received message from the server: %s\n');
-          console.log(e);
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([
-              ...this.filteredPrompts,
-              e.filteredPrompt.text,
-            ]);
-            this.toastMessage.show(e.filteredPrompt.filteredReason);
-          }
-          if (e.serverContent?.audioChunks?.[0]?.data) {
-            if (
-              this.playbackState === 'paused' ||
-              this.playbackState === 'stopped'
-            )
-              return;
-            const audioBuffer = await decodeAudioData(
-              decode(e.serverContent.audioChunks[0].data),
-              this.audioContext,
-              48000,
-              2,
-            );
-            const source = this.audioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(this.outputNode);
-            if (this.nextStartTime === 0) {
-              this.nextStartTime =
-                this.audioContext.currentTime + this.bufferTime;
-              setTimeout(() => {
-                this.playbackState = 'playing';
-              }, this.bufferTime * 1000);
-            }
+  private async handleProviderChange(settings: MusicProviderSettings) {
+    if (settings.id === this.providerSettings.id && settings.model === this.providerSettings.model) return;
+    this.providerSettings = settings;
+    setStoredProviderSettings(settings);
+    this.provider = createMusicProvider(settings);
 
-            if (this.nextStartTime < this.audioContext.currentTime) {
-              console.log('under run');
-              this.playbackState = 'loading';
-              this.nextStartTime = 0;
-              return;
-            }
-            source.start(this.nextStartTime);
-            this.nextStartTime += audioBuffer.duration;
-          }
-        },
-        onerror: (e: ErrorEvent) => {
-          console.log('Error occurred: %s\n', JSON.stringify(e));
-          this.connectionError = true;
-          this.stopAudio();
-          this.toastMessage.show('Connection error, please restart audio.');
-        },
-        onclose: (e: CloseEvent) => {
-          console.log('Connection closed.');
-          this.connectionError = true;
-          this.stopAudio();
-          this.toastMessage.show('Connection error, please restart audio.');
-        },
-      },
-    });
+    const decks = this.isDualDeck ? this.decks : [this.decks[0]];
+    const switched = await Promise.all(decks.map((deck) => deck.restart()));
+    if (switched.every(Boolean)) this.toastMessage.show(`Switched to ${this.provider.label}.`);
+  }
+
+  private async toggleDualDeck() {
+    this.isDualDeck = !this.isDualDeck;
+    this.updateCrossfader();
+    const deckB = this.decks[1];
+    if (this.isDualDeck) {
+      await deckB.start();
+    } else {
+      this.selectEditDeck('A');
+      deckB.disconnect();
+    }
+  }
+
+  /** Switches the deck the canvas edits, dropping the other deck's card selection. */
+  private selectEditDeck(id: DeckId) {
+    if (id === this.editDeckId) return;
+    this.editDeckId = id;
+    this.selectedPromptIds = new Set();
+  }
+
+  private handleCrossfade(e: Event) {
+    this.crossfade = Number((e.target as HTMLInputElement).value);
+    this.updateCrossfader();
   }
-  
-  private getModifierText(modifiers: TextPrompt['modifiers']): string {
-    const parts: string[] = [];
-    if (modifiers.style && modifiers.style !== 'Normal') parts.push(modifiers.style.toLowerCase());
-    if (modifiers.character && modifiers.character !== 'Default') parts.push(modifiers.character.toLowerCase());
-    if (modifiers.effect && modifiers.effect !== 'None') parts.push(`with ${modifiers.effect.toLowerCase()}`);
-    
-    // Use a neutral point of 0.5 for density for clearer prompting
-    if (modifiers.density < 0.3) parts.push('sparse arrangement');
-    else if (modifiers.density > 0.7) parts.push('dense, layered arrangement');
-    
-    const tone = modifiers.tone ?? 0;
-    if (tone < -0.7) parts.push('very dark and muffled tone');
-    else if (tone < -0.2) parts.push('dark tone');
-    else if (tone > 0.7) parts.push('very bright and shimmering tone');
-    else if (tone > 0.2) parts.push('bright tone');
 
-    return parts.join(', ');
+  private handleCrossfadeCurveChange(e: Event) {
+    this.crossfadeCurve = (e.target as HTMLSelectElement).value as CrossfadeCurve;
+    this.updateCrossfader();
+  }
+  
+  /** The card's modifier pack, or the default one if it is no longer loaded. */
+  private getModifierPack(id: string) {
+    return this.modifierPacks.find((p) => p.id === id) ?? DEFAULT_MODIFIER_PACK;
   }
 
   private applyModifiers(prompt: TextPrompt): string {
-    const modifierText = this.getModifierText(prompt.modifiers);
+    const modifierText = getModifierText(this.getModifierPack(prompt.modifierPack), prompt.modifiers);
     return [prompt.text, modifierText].filter(Boolean).join(', ');
   }
 
-  private setSessionPrompts = throttle(async () => {
+  /** The server may have filtered the card's text alone or with its modifiers. */
+  private getFilteredText(prompt: TextPrompt) {
+    if (this.filteredPrompts.has(prompt.text)) return prompt.text;
+    const modifiedText = this.applyModifiers(prompt);
+    return this.filteredPrompts.has(modifiedText) ? modifiedText : null;
+  }
+
+  private isFiltered(prompt: TextPrompt) {
+    return this.getFilteredText(prompt) !== null;
+  }
+
+  /**
+   * Works out every entry of the `weightedPrompts` payload and the control it
+   * comes from. Cards that are left out are listed too, with the reason.
+   */
+  private compileWeightedPrompts(deck: Deck<Prompt>): CompiledPrompt[] {
+    const prompts = deck.prompts;
+    const groups = this.deckGroups.get(deck.id)!;
     let performanceFxPrompt = '';
     if(this.activeFxPad) {
         switch(this.activeFxPad) {
@@ -2259,23 +3505,62 @@ class PromptDj extends LitElement {
         }
     }
     
-    const promptsToSend: ({ text: string; weight: number; } | { audio: string; weight: number; })[] = [];
+    const compiled: CompiledPrompt[] = [];
+    // Negative cards are constraints, so soloing other cards leaves them in.
+    const anySolo = [...prompts.values()].some((p) => p.solo && p.type !== 'negative');
+    // Prompts tagged with a muted role are left out, alongside the negative text.
+    const tagMuteSources: [InstrumentTag, string][] = [];
+    if (this.activeFxPad === 'Beat Mute') tagMuteSources.push(['drums', 'Beat Mute pad']);
+    for (const preset of Object.keys(NEGATIVE_PRESETS) as NegativePreset[]) {
+      if (isNegativePresetOn(prompts, groups, preset)) {
+        tagMuteSources.push([NEGATIVE_PRESETS[preset].tag, `${NEGATIVE_PRESETS[preset].label} button`]);
+      }
+    }
     
-    for (const p of this.prompts.values()) {
-        let weight = p.weight;
-        if(this.activeFxPad === 'Beat Mute' && p.type === 'text' && (p.text.toLowerCase().includes('drum') || p.text.toLowerCase().includes('kick') || p.text.toLowerCase().includes('beat'))) {
-            weight = 0;
+    for (const p of prompts.values()) {
+        const group = p.groupId ? groups.get(p.groupId) : undefined;
+        const source = ({text: 'Card', audio: 'Audio card', negative: 'Negative card'}[p.type])
+            + ` "${promptLabel(p)}"`
+            + (p.type === 'negative' && p.preset ? ` (${NEGATIVE_PRESETS[p.preset].label} button)` : '')
+            + (group ? ` in group "${group.name}" (macro ${group.macro.toFixed(2)})` : '')
+            + (p.lfo ? `, ${p.lfo.shape} LFO ±${p.lfo.depth.toFixed(2)} over ${p.lfo.rate} bars` : '');
+        let weight = (this.lfoWeight(p, deck) ?? p.weight) * (group?.macro ?? 1);
+        const silencedBy = p.muted ? 'muted'
+            : group?.muted ? 'group is muted'
+            : anySolo && !p.solo && p.type !== 'negative' ? 'another card is soloed' : '';
+        if (silencedBy) {
+            compiled.push({text: promptLabel(p), weight, source, excluded: silencedBy});
+            continue;
+        }
+        const mutedBy = tagMuteSources.find(([tag]) => p.tags.includes(tag))?.[1];
+        if (mutedBy) {
+            compiled.push({text: promptLabel(p), weight: 0, source, excluded: mutedBy});
+            continue;
         }
 
-        if (weight <= 0.01) continue;
+        if (weight <= 0.01) {
+            compiled.push({text: promptLabel(p), weight: 0, source, excluded: 'weight is 0'});
+            continue;
+        }
 
-        if (p.type === 'text') {
-            if (this.filteredPrompts.has(p.text)) continue;
+        if (p.type === 'negative') {
+            compiled.push({text: p.text, weight, source});
+        } else if (p.type === 'text') {
+            if (this.isFiltered(p)) {
+                compiled.push({text: p.text, weight, source, excluded: 'filtered by the server'});
+                continue;
+            }
             const modifiedText = this.applyModifiers(p);
-            promptsToSend.push({ text: modifiedText, weight: weight });
+            const modifierText = modifiedText.slice(p.text.length).replace(/^, /, '');
+            compiled.push({
+                text: modifiedText,
+                weight: weight,
+                source,
+                detail: modifierText ? `${this.getModifierPack(p.modifierPack).name} modifiers: ${modifierText}` : undefined,
+            });
         } else { // type is 'audio'
             const audioPrompt = p as AudioPrompt;
-            promptsToSend.push({ audio: audioPrompt.data, weight: weight });
+            compiled.push({audio: audioPrompt.data, weight: weight, source, detail: 'reference audio'});
 
             // Create the accompanying text prompt based on variation and text input
             let generatedText = '';
@@ -2289,56 +3574,47 @@ class PromptDj extends LitElement {
                 generatedText = 'a complex and highly creative reinterpretation inspired by the reference audio';
             }
             
+            let detail = `variation knob at ${audioPrompt.variation.toFixed(2)}`;
             if (audioPrompt.text && audioPrompt.text.trim() !== 'Direct Reference...') {
                 generatedText += `, with ${audioPrompt.text.trim()}`;
+                detail += ' plus the card text';
             }
         
             if (generatedText) {
-                promptsToSend.push({ text: generatedText, weight: weight });
+                compiled.push({text: generatedText, weight: weight, source, detail});
             }
         }
     }
 
     if(performanceFxPrompt) {
-        promptsToSend.push({ text: performanceFxPrompt, weight: 2.0 });
-    }
-    if(this.noBass) {
-        promptsToSend.push({ text: 'no bass, no bassline', weight: 2.0 });
-    }
-    if(this.noDrums) {
-        promptsToSend.push({ text: 'no drums, no percussion, no beat', weight: 2.0 });
-    }
-    if(this.noMelody) {
-        promptsToSend.push({ text: 'no melody, no lead instrument', weight: 2.0 });
+        compiled.push({text: performanceFxPrompt, weight: 2.0, source: `Performance pad "${this.activeFxPad}"`});
     }
+    return compiled;
+  }
 
-    try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts: promptsToSend,
-      });
-    } catch (e) {
-      this.toastMessage.show(e.message);
-      this.pauseAudio();
-    }
-  }, 200);
-
-  private setMusicGenerationConfig = throttle(async () => {
-    if (!this.session) return;
-    const config: LiveMusicGenerationConfig = {
-        bpm: this.bpm,
-        musicalKey: this.musicalKey,
-        // The following are experimental parameters and may not be fully supported.
-        // Casting to `any` to bypass strict TypeScript checks.
-        temperature: this.temperature,
-        topK: this.topK,
-        guidanceScale: this.guidanceScale,
-    } as any;
-    try {
-        await this.session.setMusicGenerationConfig({ musicGenerationConfig: config });
-    } catch (e) {
-        this.toastMessage.show(e.message);
-    }
-  }, 200);
+  private buildWeightedPrompts(deck: Deck<Prompt>): WeightedPrompt[] {
+    return this.compileWeightedPrompts(deck)
+      .filter((entry) => !entry.excluded)
+      .map(({text, audio, weight}) => (audio !== undefined ? {audio, weight} : {text, weight}) as WeightedPrompt);
+  }
+
+  /**
+   * Sends prompts to the given decks, by default all of them since the mutes
+   * and FX pads apply to both. `control` names what changed, so it can be
+   * shown as queued while a quantized launch is pending.
+   */
+  private setSessionPrompts(control?: string, decks = this.decks) {
+    for (const deck of decks) deck.queuePrompts(this.launchQuantize, control);
+  }
+
+  private setMusicGenerationConfig() {
+    this.editDeck.queueConfig(this.launchQuantize);
+  }
+
+  /** Whether a change to the control is waiting for a launch on any deck. */
+  private isQueued(control: string, decks = this.decks) {
+    return decks.some((deck) => deck.queuedControls.has(control));
+  }
 
   private handlePromptChanged(e: CustomEvent<Partial<Prompt>>) {
     const controller = e.target as HTMLElement;
@@ -2348,64 +3624,335 @@ class PromptDj extends LitElement {
     const prompt = this.prompts.get(promptId);
     if (!prompt) return;
 
-    const updatedPrompt = { ...prompt, ...e.detail };
+    const {weight, ...changes} = e.detail;
+    const updatedPrompt = { ...prompt, ...changes };
+    if ('text' in changes && !prompt.tagsEdited) {
+      updatedPrompt.tags = suggestPromptTags(updatedPrompt as Prompt);
+    }
+    if (prompt.type === 'negative' && prompt.preset && 'text' in changes &&
+        changes.text !== NEGATIVE_PRESETS[prompt.preset].text) {
+      // Rewritten, the card no longer stands for its NO button.
+      delete (updatedPrompt as NegativePrompt).preset;
+    }
+    if (prompt.type === 'text' && 'modifierPack' in changes) {
+      // Carry over whatever still fits the new pack's controls.
+      (updatedPrompt as TextPrompt).modifiers = adaptModifierValues(
+        this.getModifierPack(changes.modifierPack as string),
+        prompt.modifiers,
+      );
+    }
+    if (weight !== undefined && weight !== prompt.weight) {
+      if (this.isGlideOn) {
+        this.startWeightTransition(this.editDeck, promptId, weight);
+      } else {
+        // Taking hold of the slider ends any glide in progress.
+        this.editDeck.weightTransitions.delete(promptId);
+        updatedPrompt.weight = weight;
+      }
+    }
     
     const updatedPrompts = new Map(this.prompts);
     updatedPrompts.set(promptId, updatedPrompt as Prompt);
     this.prompts = updatedPrompts;
+    this.setSessionPrompts(promptId, [this.editDeck]);
+    this.savePrompts(this.editDeck, `${promptId}:${Object.keys(e.detail).sort().join()}`);
+    if ('lfo' in changes) this.updateLfoTimer();
+  }
+
+  /** The prompt's weight with its LFO applied now, or null without an LFO. */
+  private lfoWeight(prompt: Prompt, deck: Deck<Prompt>) {
+    if (!prompt.lfo) return null;
+    const bars = deck.clock.barsAt(this.audioContext.currentTime);
+    return modulatedWeight(prompt.weight, prompt.lfo, bars, lfoSeed(prompt.promptId));
+  }
+
+  private captureFx(): MasterFx {
+    const self = this as unknown as MasterFx;
+    return Object.fromEntries(MASTER_FX_KEYS.map((key) => [key, self[key]])) as unknown as MasterFx;
+  }
+
+  private applyFx(fx: MasterFx) {
+    Object.assign(this, fx);
+    this.updateFxChain();
+  }
+
+  /** Saves the edit deck's prompts, groups and config, the Master FX and the Kaoss program. */
+  private storeScene(slot: number) {
+    const scenes = [...this.scenes];
+    scenes[slot] = {
+      name: `Scene ${slot + 1}`,
+      savedAt: new Date().toISOString(),
+      config: {...this.editDeck.config},
+      prompts: serializePrompts(this.prompts),
+      groups: [...this.groups.values()],
+      fx: this.captureFx(),
+      kaossProgram: this.activeKaossProgram,
+    };
+    this.isSceneStoreArmed = false;
+    this.activeScene = slot;
+    if (this.saveScenes(scenes)) this.toastMessage.show(`Stored ${scenes[slot]!.name}.`);
+  }
+
+  /** Keeps and saves the scenes, telling the user if storage refuses. */
+  private saveScenes(scenes: (Scene<ProjectPrompt> | null)[]) {
+    this.scenes = scenes;
+    try {
+      storeScenes(scenes);
+      return true;
+    } catch (e) {
+      console.error('Failed to save scenes', e);
+      this.toastMessage.show(saveFailedMessage('the scenes', e));
+      return false;
+    }
+  }
+
+  /**
+   * Recalls a scene onto the edit deck. With a MORPH length, weights and FX
+   * values glide there over that many bars; everything else switches at once.
+   */
+  private recallScene(slot: number) {
+    const scene = this.scenes[slot];
+    if (!scene) return;
+    const deck = this.editDeck;
+    // Parse a copy, so the stored scene stays as it was while the cards change.
+    const scenePrompts = parseStoredPrompts(JSON.parse(JSON.stringify(scene.prompts)));
+    this.reservePromptIds(scenePrompts.keys());
+    this.stopSceneMorph();
+    deck.weightTransitions.clear();
+    Object.assign(deck.config, scene.config);
+    this.groups = new Map(scene.groups.map((g) => [g.id, g]));
+    this.activeKaossProgram = scene.kaossProgram;
+    this.activeScene = slot;
+
+    const duration = transitionDuration(this.sceneMorphBars, 'bars', deck.config.bpm);
+    if (duration <= 0) {
+      this.prompts = scenePrompts;
+      this.applyFx(scene.fx);
+    } else {
+      // Cards start from their current weight, or 0 if new; cards the scene lacks fade out.
+      const merged = new Map<string, Prompt>();
+      for (const [promptId, prompt] of scenePrompts) {
+        merged.set(promptId, {...prompt, weight: this.prompts.get(promptId)?.weight ?? 0});
+      }
+      const removeIds = [...this.prompts.keys()].filter((promptId) => !scenePrompts.has(promptId));
+      for (const promptId of removeIds) merged.set(promptId, this.prompts.get(promptId)!);
+      this.prompts = merged;
+      for (const [promptId, prompt] of scenePrompts) this.startWeightTransition(deck, promptId, prompt.weight, duration);
+      for (const promptId of removeIds) this.startWeightTransition(deck, promptId, 0, duration);
+      this.sceneMorph = {from: this.captureFx(), to: scene.fx, startTime: performance.now(), duration, removeIds, deck};
+      this.sceneMorphTimer = window.setInterval(() => this.stepSceneMorph(), TRANSITION_TICK_MS);
+    }
+    this.setMusicGenerationConfig();
+    this.setSessionPrompts(`scene:${slot}`, [deck]);
+    this.savePrompts(deck);
+    this.updateLfoTimer();
+  }
+
+  private stepSceneMorph() {
+    if (!this.sceneMorph) return;
+    const {from, to, startTime, duration} = this.sceneMorph;
+    const t = Math.min(1, (performance.now() - startTime) / duration);
+    this.applyFx(interpolateFx(from, to, t));
+    if (t >= 1) this.stopSceneMorph();
+  }
+
+  /** Ends a scene morph, dropping the cards that faded out. */
+  private stopSceneMorph() {
+    if (this.sceneMorphTimer !== null) clearInterval(this.sceneMorphTimer);
+    this.sceneMorphTimer = null;
+    if (!this.sceneMorph) return;
+    const {deck, removeIds, to} = this.sceneMorph;
+    this.sceneMorph = null;
+    this.applyFx(to);
+    const prompts = new Map(deck.prompts);
+    for (const promptId of removeIds) {
+      prompts.delete(promptId);
+      deck.weightTransitions.delete(promptId);
+    }
+    deck.prompts = prompts;
+    deck.sendPrompts();
+    this.savePrompts(deck);
+    this.requestUpdate();
+  }
+
+  /** Keeps new prompt ids clear of the given ones, e.g. after loading saved prompts. */
+  private reservePromptIds(promptIds: Iterable<string>) {
+    for (const promptId of promptIds) {
+      const n = Number(promptId.replace('prompt-', ''));
+      if (Number.isFinite(n)) this.nextPromptId = Math.max(this.nextPromptId, n + 1);
+    }
+  }
+
+  private handleSceneSlot(slot: number) {
+    if (this.isSceneStoreArmed) {
+      this.storeScene(slot);
+    } else if (this.scenes[slot]) {
+      this.recallScene(slot);
+    } else {
+      this.toastMessage.show('This slot is empty. Press STORE, then the slot, to save a scene.');
+    }
+  }
+
+  private captureState(): EditState {
+    return {
+      decks: this.decks.map((deck) => ({
+        prompts: [...deck.prompts.values()].map((p) => ({...p})),
+        groups: [...this.deckGroups.get(deck.id)!.values()].map((g) => ({...g})),
+        config: {...deck.config},
+      })),
+      fx: this.captureFx(),
+    };
+  }
+
+  /**
+   * Records the state as an undo step once the current task is done, so an
+   * action that saves in several places makes one step. Changes with the
+   * same `key` in quick succession, like a slider drag, also make one.
+   */
+  private checkpoint(key: string | null = null) {
+    if (this.pendingCheckpoint) {
+      if (this.pendingCheckpoint.key !== key) this.pendingCheckpoint.key = null;
+      return;
+    }
+    this.pendingCheckpoint = {key};
+    queueMicrotask(() => {
+      const {key} = this.pendingCheckpoint!;
+      this.pendingCheckpoint = null;
+      this.history.record(this.captureState(), key);
+      this.requestUpdate();
+    });
+  }
+
+  /** Saves a deck's prompts and records the change for undo. */
+  private savePrompts(deck: Deck<Prompt>, key: string | null = null) {
+    setStoredPrompts(deck.prompts, deck.storageKey);
+    this.checkpoint(key);
+  }
+
+  /** Puts back a state from the history and sends it to the sessions. */
+  private restoreState(state: EditState) {
+    this.stopSceneMorph();
+    this.decks.forEach((deck, i) => {
+      const saved = state.decks[i];
+      deck.weightTransitions.clear();
+      deck.prompts = new Map(saved.prompts.map((p) => [p.promptId, {...p}]));
+      const groups = new Map(saved.groups.map((g) => [g.id, {...g}]));
+      this.deckGroups.set(deck.id, groups);
+      setStoredGroups(groups, deck.storageKey);
+      setStoredPrompts(deck.prompts, deck.storageKey);
+      this.pruneMorphCorners(deck);
+      if (JSON.stringify(deck.config) !== JSON.stringify(saved.config)) {
+        Object.assign(deck.config, saved.config);
+        deck.queueConfig(this.launchQuantize);
+      }
+    });
+    this.applyFx(state.fx);
+    this.selectedPromptIds = new Set([...this.selectedPromptIds].filter((promptId) => this.prompts.has(promptId)));
     this.setSessionPrompts();
-    setStoredPrompts(this.prompts);
+    this.updateLfoTimer();
+    this.requestUpdate();
   }
 
-  private async handlePlayPause() {
-    if (this.playbackState === 'playing') {
-      this.pauseAudio();
-    } else if (
-      this.playbackState === 'paused' ||
-      this.playbackState === 'stopped'
-    ) {
-      if (this.connectionError) {
-        await this.connectToSession();
-        this.setMusicGenerationConfig();
-        this.setSessionPrompts();
+  private handleUndo() {
+    const state = this.history.undo();
+    if (state) this.restoreState(state);
+  }
+
+  private handleRedo() {
+    const state = this.history.redo();
+    if (state) this.restoreState(state);
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+    // Text fields keep their own undo.
+    const target = e.composedPath()[0];
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement ||
+        (target instanceof HTMLElement && target.isContentEditable)) return;
+    e.preventDefault();
+    if (e.shiftKey) {
+      this.handleRedo();
+    } else {
+      this.handleUndo();
+    }
+  };
+
+  /**
+   * Starts the LFO clock if a playing deck has a prompt with an LFO. It stops
+   * by itself once none does, and starts again when a deck starts playing.
+   */
+  private updateLfoTimer() {
+    const isModulated = (deck: Deck<Prompt>) =>
+      deck.playbackState === 'playing' && [...deck.prompts.values()].some((p) => p.lfo);
+    if (this.lfoTimer !== null || !this.decks.some(isModulated)) return;
+    this.lfoTimer = window.setInterval(() => {
+      const modulated = this.decks.filter(isModulated);
+      if (modulated.length === 0) {
+        clearInterval(this.lfoTimer!);
+        this.lfoTimer = null;
+        this.requestUpdate();
+        return;
       }
-      this.loadAudio();
-    } else if (this.playbackState === 'loading') {
-      this.stopAudio();
+      // Like weight glides, LFO steps go out straight away rather than at the next launch.
+      for (const deck of modulated) deck.sendPrompts();
+      this.requestUpdate();
+    }, TRANSITION_TICK_MS);
+  }
+
+  /** Glides a prompt's weight to `target`, over the GLIDE length unless a duration (ms) is given. */
+  private startWeightTransition(deck: Deck<Prompt>, promptId: string, target: number, duration?: number) {
+    const prompt = deck.prompts.get(promptId);
+    if (!prompt) return;
+    deck.weightTransitions.set(promptId, {
+      from: prompt.weight,
+      to: target,
+      startTime: performance.now(),
+      duration: duration ?? transitionDuration(this.glideLength, this.glideUnit, deck.config.bpm),
+    });
+    if (this.transitionTimer === null) {
+      this.transitionTimer = window.setInterval(() => this.stepWeightTransitions(), TRANSITION_TICK_MS);
     }
   }
 
-  private pauseAudio() {
-    if (this.isRecording) this.handleRecord();
-    this.session.pause();
-    this.playbackState = 'paused';
-    this.masterOut.gain.setValueAtTime(1, this.audioContext.currentTime);
-    this.masterOut.gain.linearRampToValueAtTime(
-      0,
-      this.audioContext.currentTime + 0.1,
-    );
-    this.nextStartTime = 0;
-    this.outputNode = this.audioContext.createGain();
-    this.outputNode.connect(this.lowPassFilter);
-  }
-
-  private loadAudio() {
-    this.audioContext.resume();
-    this.session.play();
-    this.playbackState = 'loading';
-    this.masterOut.gain.setValueAtTime(0, this.audioContext.currentTime);
-    this.masterOut.gain.linearRampToValueAtTime(
-      1,
-      this.audioContext.currentTime + 0.1,
-    );
+  private stepWeightTransitions() {
+    const now = performance.now();
+    for (const deck of this.decks) {
+      if (deck.weightTransitions.size === 0) continue;
+      const prompts = new Map(deck.prompts);
+      let finished = false;
+      for (const [promptId, transition] of deck.weightTransitions) {
+        const prompt = prompts.get(promptId);
+        const {weight, done} = transitionWeight(transition, now);
+        if (prompt) prompts.set(promptId, {...prompt, weight});
+        if (done || !prompt) {
+          deck.weightTransitions.delete(promptId);
+          finished = true;
+        }
+      }
+      deck.prompts = prompts;
+      deck.sendPrompts();
+      if (finished) this.savePrompts(deck, 'glide');
+    }
+    this.requestUpdate();
+    if (this.decks.every((deck) => deck.weightTransitions.size === 0)) {
+      clearInterval(this.transitionTimer!);
+      this.transitionTimer = null;
+    }
   }
 
-  private stopAudio() {
-    if (this.isRecording) this.handleRecord();
-    this.session.stop();
-    this.playbackState = 'stopped';
-    this.masterOut.gain.setValueAtTime(1, this.audioContext.currentTime);
-    this.nextStartTime = 0;
+  private async handlePlayPause() {
+    const deck = this.editDeck;
+    if (deck.playbackState === 'playing') {
+      deck.pause();
+    } else if (
+      deck.playbackState === 'paused' ||
+      deck.playbackState === 'stopped'
+    ) {
+      if (!(await deck.start())) return;
+      deck.play();
+    } else if (deck.playbackState === 'loading') {
+      deck.abort();
+    }
   }
   
   private handleRecord() {
@@ -2433,15 +3980,7 @@ class PromptDj extends LitElement {
       });
 
       const blob = new Blob([concatenatedMp3], { type: 'audio/mpeg' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = `prompt-dj-session-${new Date().toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-')}.mp3`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      a.remove();
+      downloadBlob(blob, `prompt-dj-session-${fileTimestamp()}.mp3`);
 
       this.mp3Data = [];
       this.mp3Encoder = null;
@@ -2453,7 +3992,7 @@ class PromptDj extends LitElement {
 
     } else {
       // Start recording
-      if (this.playbackState !== 'playing') {
+      if (!this.decks.some((deck) => deck.playbackState === 'playing')) {
         this.toastMessage.show('Start playback before recording.');
         return;
       }
@@ -2483,129 +4022,548 @@ class PromptDj extends LitElement {
     }
   }
 
-  private async handleAddPrompt() {
+  private async handleAddPrompt() {
+    const newPromptId = `prompt-${this.nextPromptId++}`;
+    const usedColors = [...this.prompts.values()].map((p) => p.color);
+    const offsetX = (this.prompts.size % 10) * 20 - 100;
+    const offsetY = Math.floor(this.prompts.size / 10) * 20 - 100;
+    const newPrompt: TextPrompt = {
+      promptId: newPromptId,
+      type: 'text',
+      text: 'New Prompt',
+      weight: 0,
+      color: getUnusedRandomColor(usedColors),
+      x: window.innerWidth / 2 - 100 + offsetX,
+      y: window.innerHeight / 2 - 250 + offsetY,
+      muted: false,
+      solo: false,
+      tags: [],
+      tagsEdited: false,
+      groupId: null,
+      lfo: null,
+      modifierPack: DEFAULT_MODIFIER_PACK_ID,
+      modifiers: defaultModifierValues(DEFAULT_MODIFIER_PACK),
+    };
+    const newPrompts = new Map(this.prompts);
+    newPrompts.set(newPromptId, newPrompt);
+    this.prompts = newPrompts;
+
+    this.setSessionPrompts(newPromptId, [this.editDeck]);
+    this.savePrompts(this.editDeck);
+
+    await this.updateComplete;
+
+    const newPromptElement = this.renderRoot.querySelector<PromptController>(
+      `prompt-controller[promptId="${newPromptId}"]`,
+    );
+    if (newPromptElement) {
+      const textSpan =
+        newPromptElement.shadowRoot?.querySelector<HTMLSpanElement>('#text');
+      if (textSpan) {
+        textSpan.focus();
+        const selection = window.getSelection();
+        const range = document.createRange();
+        range.selectNodeContents(textSpan);
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+      }
+    }
+  }
+  
+  private async handleUploadAudio() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'audio/*';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if(!file) return;
+
+      this.toastMessage.show('Analyzing reference track...');
+
+      try {
+        const arrayBuffer = await file.arrayBuffer();
+        const {data, waveformData} = await resampleAndEncodeAudio(arrayBuffer, this.audioContext);
+        
+        const newPromptId = `prompt-${this.nextPromptId++}`;
+        const usedColors = [...this.prompts.values()].map((p) => p.color);
+        const offsetX = (this.prompts.size % 10) * 20 - 100;
+        const offsetY = Math.floor(this.prompts.size / 10) * 20 - 100;
+        const newPrompt: AudioPrompt = {
+            promptId: newPromptId,
+            type: 'audio',
+            name: file.name,
+            data,
+            waveformData,
+            weight: 1, // Start with weight 1
+            muted: false,
+            solo: false,
+            tags: suggestTags(file.name),
+            tagsEdited: false,
+            groupId: null,
+            lfo: null,
+            color: getUnusedRandomColor(usedColors),
+            x: window.innerWidth / 2 - 100 + offsetX,
+            y: window.innerHeight / 2 - 250 + offsetY,
+            text: 'Direct Reference...',
+            variation: 0.1,
+        };
+        const newPrompts = new Map(this.prompts);
+        newPrompts.set(newPromptId, newPrompt);
+        this.prompts = newPrompts;
+
+        this.setSessionPrompts(newPromptId, [this.editDeck]);
+        this.savePrompts(this.editDeck);
+        this.toastMessage.show('Reference track added.');
+      } catch (error) {
+        console.error('Error processing audio file:', error);
+        this.toastMessage.show('Error: Could not process audio file.');
+      }
+
+    };
+    input.click();
+  }
+
+  private handleLoadModifierPack() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      let pack: ModifierPack;
+      try {
+        pack = parseModifierPack(JSON.parse(await file.text()));
+      } catch (error) {
+        console.error('Error loading modifier pack:', error);
+        this.toastMessage.show(`Error: ${error instanceof SyntaxError ? 'Not valid JSON.' : error.message}`);
+        return;
+      }
+      if (BUILTIN_MODIFIER_PACKS.some((p) => p.id === pack.id)) {
+        this.toastMessage.show(`Error: "${pack.id}" is the id of a built-in pack.`);
+        return;
+      }
+      // A pack with the same id replaces the one loaded before.
+      this.modifierPacks = [...this.modifierPacks.filter((p) => p.id !== pack.id), pack];
+      setStoredModifierPacks(this.modifierPacks.filter((p) => !BUILTIN_MODIFIER_PACKS.includes(p)));
+      this.setSessionPrompts();
+      this.toastMessage.show(`Loaded modifier pack "${pack.name}".`);
+    };
+    input.click();
+  }
+
+  /**
+   * Replaces the edit deck's cards with a generated set. The seed used is
+   * shown so the set can be made again.
+   */
+  private handleSurprise() {
+    const seed = this.surpriseSeed ?? randomSeed();
+    const generated = generatePrompts({
+      count: this.surpriseCount,
+      keepDrums: this.surpriseKeepDrums,
+      energy: this.surpriseEnergy,
+      seed,
+    });
+
+    // Negative cards stay, as do the drum cards with KEEP DRUMS on.
+    const newPrompts = new Map<string, Prompt>();
+    for (const prompt of this.prompts.values()) {
+      if (prompt.type === 'negative' || (this.surpriseKeepDrums && prompt.tags.includes('drums'))) {
+        newPrompts.set(prompt.promptId, prompt);
+      }
+    }
+    const usedColors = [...newPrompts.values()].map((p) => p.color);
+    const spacing = Math.min(0.15, 0.7 / generated.length);
+    generated.forEach((g, i) => {
+      const color = getUnusedRandomColor(usedColors);
+      usedColors.push(color);
+      const promptId = `prompt-${this.nextPromptId++}`;
+      newPrompts.set(promptId, {
+        promptId,
+        type: 'text',
+        text: g.text,
+        weight: g.weight,
+        muted: false,
+        solo: false,
+        tags: g.tags,
+        tagsEdited: false,
+        groupId: null,
+        lfo: null,
+        color,
+        x: window.innerWidth * (0.15 + i * spacing),
+        y: window.innerHeight * 0.3,
+        modifierPack: DEFAULT_MODIFIER_PACK_ID,
+        modifiers: defaultModifierValues(DEFAULT_MODIFIER_PACK),
+      });
+    });
+
+    this.editDeck.weightTransitions.clear();
+    this.prompts = newPrompts;
+    this.pruneGroups();
+    this.pruneMorphCorners(this.editDeck);
+    this.setSessionPrompts(undefined, [this.editDeck]);
+    this.savePrompts(this.editDeck);
+    this.toastMessage.show(`Generated ${generated.length} prompts with seed ${seed}.`);
+  }
+
+  private updateLibrary(library: LibraryEntry[]) {
+    this.library = library;
+    setStoredLibrary(library);
+  }
+
+  private handleSaveToLibrary(e: CustomEvent<string>) {
+    const prompt = this.prompts.get(e.detail);
+    if (!prompt || prompt.type !== 'text') return;
+    const entry: LibraryEntry = {
+      id: `user:${Date.now().toString(36)}`,
+      text: prompt.text,
+      category: SAVED_CATEGORY,
+      tags: [...prompt.tags],
+      favorite: false,
+      color: prompt.color,
+      modifierPack: prompt.modifierPack,
+      modifiers: {...prompt.modifiers},
+    };
+    this.updateLibrary([entry, ...this.library]);
+    this.toastMessage.show(`Saved "${prompt.text}" to the library.`);
+  }
+
+  /** Adds a card for a library entry, at the given point or the middle of the canvas. */
+  private addLibraryPrompt(entryId: string, x?: number, y?: number) {
+    const entry = this.library.find((e) => e.id === entryId);
+    if (!entry) return;
     const newPromptId = `prompt-${this.nextPromptId++}`;
     const usedColors = [...this.prompts.values()].map((p) => p.color);
     const offsetX = (this.prompts.size % 10) * 20 - 100;
     const offsetY = Math.floor(this.prompts.size / 10) * 20 - 100;
+    const pack = this.getModifierPack(entry.modifierPack);
+    // The entry keeps the tags of the card it was saved from, edits included.
+    const tags = entry.tags.filter(isInstrumentTag);
+    const suggested = suggestTags(entry.text);
+    const tagsEdited = tags.length !== suggested.length || tags.some((t) => !suggested.includes(t));
     const newPrompt: TextPrompt = {
       promptId: newPromptId,
       type: 'text',
-      text: 'New Prompt',
+      text: entry.text,
       weight: 0,
-      color: getUnusedRandomColor(usedColors),
-      x: window.innerWidth / 2 - 100 + offsetX,
-      y: window.innerHeight / 2 - 250 + offsetY,
-      modifiers: { style: 'Normal', character: 'Default', effect: 'None', density: 0.5, tone: 0 },
+      muted: false,
+      solo: false,
+      tags,
+      tagsEdited,
+      groupId: null,
+      lfo: null,
+      color: entry.color && !usedColors.includes(entry.color) ? entry.color : getUnusedRandomColor(usedColors),
+      x: x ?? window.innerWidth / 2 - 100 + offsetX,
+      y: y ?? window.innerHeight / 2 - 250 + offsetY,
+      modifierPack: pack.id,
+      modifiers: adaptModifierValues(pack, entry.modifiers),
     };
     const newPrompts = new Map(this.prompts);
     newPrompts.set(newPromptId, newPrompt);
     this.prompts = newPrompts;
+    this.setSessionPrompts(newPromptId, [this.editDeck]);
+    this.savePrompts(this.editDeck);
+  }
 
-    await this.setSessionPrompts();
-    setStoredPrompts(this.prompts);
+  private handleLibraryDragOver(e: DragEvent) {
+    if (e.dataTransfer?.types.includes(LIBRARY_DRAG_TYPE)) e.preventDefault();
+  }
 
-    await this.updateComplete;
+  private handleLibraryDrop(e: DragEvent) {
+    const entryId = e.dataTransfer?.getData(LIBRARY_DRAG_TYPE);
+    if (!entryId) return;
+    e.preventDefault();
+    // Drop the card with its drag handle under the pointer.
+    const vmin = Math.min(window.innerWidth, window.innerHeight) / 100;
+    this.addLibraryPrompt(entryId, e.clientX - 12.5 * vmin, e.clientY - vmin);
+  }
 
-    const newPromptElement = this.renderRoot.querySelector<PromptController>(
-      `prompt-controller[promptId="${newPromptId}"]`,
-    );
-    if (newPromptElement) {
-      const textSpan =
-        newPromptElement.shadowRoot?.querySelector<HTMLSpanElement>('#text');
-      if (textSpan) {
-        textSpan.focus();
-        const selection = window.getSelection();
-        const range = document.createRange();
-        range.selectNodeContents(textSpan);
-        selection?.removeAllRanges();
-        selection?.addRange(range);
-      }
-    }
+  private handleLibraryToggleFavorite(e: CustomEvent<string>) {
+    this.updateLibrary(this.library.map((entry) =>
+      entry.id === e.detail ? {...entry, favorite: !entry.favorite} : entry));
   }
-  
-  private async handleUploadAudio() {
+
+  private handleLibraryRemove(e: CustomEvent<string>) {
+    this.updateLibrary(this.library.filter((entry) => entry.builtin || entry.id !== e.detail));
+  }
+
+  private handleLibraryImport() {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'audio/*';
+    input.accept = 'application/json,.json';
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if(!file) return;
+      if (!file) return;
+      let imported: LibraryEntry[];
+      try {
+        imported = parseLibraryEntries(JSON.parse(await file.text()));
+      } catch (error) {
+        console.error('Error importing prompt library:', error);
+        this.toastMessage.show(`Error: ${error instanceof SyntaxError ? 'Not valid JSON.' : error.message}`);
+        return;
+      }
+      // Entries with a known id replace the existing ones; built-in presets only take the favorite flag.
+      const library = new Map(this.library.map((entry) => [entry.id, entry]));
+      for (const entry of imported) {
+        const existing = library.get(entry.id);
+        library.set(entry.id, existing?.builtin ? {...existing, favorite: entry.favorite} : entry);
+      }
+      this.updateLibrary([...library.values()]);
+      this.toastMessage.show(`Imported ${imported.length} library entr${imported.length === 1 ? 'y' : 'ies'}.`);
+    };
+    input.click();
+  }
 
-      this.toastMessage.show('Analyzing reference track...');
+  private handleLibraryExport() {
+    // Presets ship with the app, so only the favorite flags of those are exported.
+    const entries = this.library
+      .filter((entry) => !entry.builtin || entry.favorite)
+      .map(({builtin, ...entry}) => builtin ? {id: entry.id, text: entry.text, favorite: true} : entry);
+    const blob = new Blob([JSON.stringify({entries}, null, 2)], {type: 'application/json'});
+    downloadBlob(blob, `prompt-dj-library-${fileTimestamp()}.json`);
+  }
 
-      try {
-        const arrayBuffer = await file.arrayBuffer();
-        const {data, waveformData} = await resampleAndEncodeAudio(arrayBuffer, this.audioContext);
-        
-        const newPromptId = `prompt-${this.nextPromptId++}`;
-        const usedColors = [...this.prompts.values()].map((p) => p.color);
-        const offsetX = (this.prompts.size % 10) * 20 - 100;
-        const offsetY = Math.floor(this.prompts.size / 10) * 20 - 100;
-        const newPrompt: AudioPrompt = {
-            promptId: newPromptId,
-            type: 'audio',
-            name: file.name,
-            data,
-            waveformData,
-            weight: 1, // Start with weight 1
-            color: getUnusedRandomColor(usedColors),
-            x: window.innerWidth / 2 - 100 + offsetX,
-            y: window.innerHeight / 2 - 250 + offsetY,
-            text: 'Direct Reference...',
-            variation: 0.1,
-        };
-        const newPrompts = new Map(this.prompts);
-        newPrompts.set(newPromptId, newPrompt);
-        this.prompts = newPrompts;
+  private handleSaveProject() {
+    const project: Project = {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      savedAt: new Date().toISOString(),
+      decks: this.decks.map((deck) => ({
+        id: deck.id,
+        config: {...deck.config},
+        prompts: serializePrompts(deck.prompts),
+        groups: [...this.deckGroups.get(deck.id)!.values()],
+      })),
+      fx: this.captureFx(),
+      kaossProgram: this.activeKaossProgram,
+      scenes: this.scenes,
+      layout: {editDeckId: this.editDeckId, crossfade: this.crossfade, crossfadeCurve: this.crossfadeCurve},
+    };
+    const blob = new Blob([JSON.stringify(project)], {type: 'application/json'});
+    downloadBlob(blob, `prompt-dj-project-${fileTimestamp()}.json`);
+  }
 
-        await this.setSessionPrompts();
-        setStoredPrompts(this.prompts);
-        this.toastMessage.show('Reference track added.');
+  /**
+   * Opens a project file. `replace` swaps in everything the file holds;
+   * `merge` adds its cards and groups to the decks and its scenes to the
+   * empty slots, leaving the config, FX and layout alone.
+   */
+  private handleOpenProject(mode: 'replace' | 'merge') {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      let project: Project;
+      try {
+        project = parseProject(JSON.parse(await file.text()));
       } catch (error) {
-        console.error('Error processing audio file:', error);
-        this.toastMessage.show('Error: Could not process audio file.');
+        console.error('Error opening project:', error);
+        this.toastMessage.show(`Error: ${error instanceof SyntaxError ? 'Not valid JSON.' : error.message}`);
+        return;
       }
-
+      if (mode === 'replace') {
+        this.replaceProject(project);
+      } else {
+        this.mergeProject(project);
+      }
+      this.updateLfoTimer();
+      this.checkpoint();
+      // If saving failed, the toast says so instead.
+      if (this.saveAll()) this.toastMessage.show(`${mode === 'replace' ? 'Opened' : 'Merged'} ${file.name}.`);
     };
     input.click();
   }
 
+  private replaceProject(project: Project) {
+    this.stopSceneMorph();
+    for (const deck of this.decks) {
+      const saved = project.decks.find((d) => d.id === deck.id);
+      const prompts = parseStoredPrompts(saved?.prompts ?? []);
+      this.reservePromptIds(prompts.keys());
+      deck.weightTransitions.clear();
+      deck.prompts = prompts;
+      // Ids in the file may name other cards than before.
+      this.deckMorphCorners.delete(deck.id);
+      if (saved) Object.assign(deck.config, saved.config);
+      this.deckGroups.set(deck.id, new Map((saved?.groups ?? []).map((g) => [g.id, g])));
+      deck.queueConfig(this.launchQuantize);
+    }
+    this.selectedPromptIds = new Set();
+    this.applyFx(project.fx);
+    this.activeKaossProgram = project.kaossProgram;
+    this.scenes = project.scenes;
+    this.activeScene = null;
+    // Deck B only shows while both decks run.
+    this.editDeckId = this.isDualDeck ? project.layout.editDeckId : 'A';
+    this.crossfade = project.layout.crossfade;
+    this.crossfadeCurve = project.layout.crossfadeCurve;
+    this.updateCrossfader();
+    this.setSessionPrompts();
+  }
+
+  private mergeProject(project: Project) {
+    for (const saved of project.decks) {
+      const deck = this.decks.find((d) => d.id === saved.id);
+      if (!deck) continue;
+      // Fresh ids keep the merged cards and groups apart from the ones already there.
+      const groupIds = new Map(saved.groups.map((g, i) => [g.id, `group-${Date.now().toString(36)}-${i}`]));
+      const groups = new Map(this.deckGroups.get(deck.id));
+      for (const group of saved.groups) groups.set(groupIds.get(group.id)!, {...group, id: groupIds.get(group.id)!});
+      const prompts = new Map(deck.prompts);
+      for (const prompt of parseStoredPrompts(saved.prompts).values()) {
+        const promptId = `prompt-${this.nextPromptId++}`;
+        prompts.set(promptId, {...prompt, promptId, groupId: prompt.groupId ? groupIds.get(prompt.groupId) ?? null : null});
+      }
+      deck.prompts = prompts;
+      this.deckGroups.set(deck.id, groups);
+    }
+    const scenes = [...this.scenes];
+    for (const scene of project.scenes) {
+      const slot = scenes.indexOf(null);
+      if (scene && slot >= 0) scenes[slot] = scene;
+    }
+    this.scenes = scenes;
+    this.setSessionPrompts();
+    this.requestUpdate();
+  }
+
+  /**
+   * Saves every deck's cards and groups and the scenes, e.g. after opening a
+   * project. Returns false, having told the user, if storage refused.
+   */
+  private saveAll() {
+    // The prompt store reports its own failures.
+    for (const deck of this.decks) setStoredPrompts(deck.prompts, deck.storageKey);
+    try {
+      for (const deck of this.decks) setStoredGroups(this.deckGroups.get(deck.id)!, deck.storageKey);
+    } catch (e) {
+      console.error('Failed to save groups', e);
+      this.toastMessage.show(saveFailedMessage('the groups', e));
+      return false;
+    }
+    return this.saveScenes(this.scenes);
+  }
+
   private handlePromptRemoved(e: CustomEvent<string>) {
     e.stopPropagation();
     const promptIdToRemove = e.detail;
     if (this.prompts.has(promptIdToRemove)) {
       this.prompts.delete(promptIdToRemove);
+      this.editDeck.weightTransitions.delete(promptIdToRemove);
       const newPrompts = new Map(this.prompts);
       this.prompts = newPrompts;
-      this.setSessionPrompts();
-      setStoredPrompts(this.prompts);
+      this.selectedPromptIds.delete(promptIdToRemove);
+      this.pruneGroups();
+      this.pruneMorphCorners(this.editDeck);
+      this.setSessionPrompts(undefined, [this.editDeck]);
+      this.savePrompts(this.editDeck);
     }
   }
 
-  private async handleReset() {
-    if (this.connectionError) {
-      await this.connectToSession();
-      this.setMusicGenerationConfig();
-      this.setSessionPrompts();
+  /** Makes a group of the selected prompts, taking them out of any other group. */
+  private handleGroupSelected() {
+    if (this.selectedPromptIds.size === 0) {
+      this.toastMessage.show('Shift-click the handles of the cards to group first.');
+      return;
     }
-    this.pauseAudio();
-    this.session.resetContext();
-    this.session?.setMusicGenerationConfig({
-      musicGenerationConfig: {},
-    });
-    setTimeout(this.loadAudio.bind(this), 100);
+    const usedColors = [...this.groups.values()].map((g) => g.color);
+    const group: PromptGroup = {
+      id: `group-${Date.now().toString(36)}`,
+      name: `Group ${this.groups.size + 1}`,
+      color: getUnusedRandomColor(usedColors),
+      macro: 1,
+      muted: false,
+    };
+    const newPrompts = new Map(this.prompts);
+    for (const promptId of this.selectedPromptIds) {
+      const prompt = newPrompts.get(promptId);
+      if (prompt) newPrompts.set(promptId, {...prompt, groupId: group.id});
+    }
+    this.prompts = newPrompts;
+    this.groups = new Map(this.groups).set(group.id, group);
+    this.selectedPromptIds = new Set();
+    this.pruneGroups();
+    this.setSessionPrompts(`group:${group.id}`, [this.editDeck]);
+    this.savePrompts(this.editDeck);
+  }
+
+  /** Applies `changes` to a group; with `save` false they are only sent, e.g. during a drag. */
+  private updateGroup(groupId: string, changes: Partial<PromptGroup>, save = true) {
+    const group = this.groups.get(groupId);
+    if (!group) return;
+    const groups = new Map(this.groups).set(groupId, {...group, ...changes});
+    if (save) {
+      this.groups = groups;
+    } else {
+      this.deckGroups.set(this.editDeckId, groups);
+      this.requestUpdate();
+    }
+    if ('macro' in changes || 'muted' in changes) {
+      this.setSessionPrompts(`group:${groupId}`, [this.editDeck]);
+    }
+  }
+
+  private ungroup(groupId: string) {
+    const newPrompts = new Map(this.prompts);
+    for (const prompt of newPrompts.values()) {
+      if (prompt.groupId === groupId) newPrompts.set(prompt.promptId, {...prompt, groupId: null});
+    }
+    this.prompts = newPrompts;
+    this.pruneGroups();
+    this.setSessionPrompts(`group:${groupId}`, [this.editDeck]);
+    this.savePrompts(this.editDeck);
+  }
+
+  /** Unpins morph pad corners whose prompt is gone from `deck`. */
+  private pruneMorphCorners(deck: Deck<Prompt>) {
+    const corners = this.deckMorphCorners.get(deck.id);
+    if (!corners) return;
+    const pruned = {...corners};
+    for (const {id} of MORPH_CORNERS) {
+      if (pruned[id] && !deck.prompts.has(pruned[id]!)) pruned[id] = null;
+    }
+    this.deckMorphCorners.set(deck.id, pruned);
+    this.requestUpdate();
+  }
+
+  /** Drops the edit deck's groups that no longer have members. */
+  private pruneGroups() {
+    const used = new Set([...this.prompts.values()].map((p) => p.groupId));
+    const groups = new Map([...this.groups].filter(([id]) => used.has(id)));
+    if (groups.size !== this.groups.size) this.groups = groups;
+  }
+
+  private async handleReset() {
+    const deck = this.editDeck;
+    if (!(await deck.start())) return;
+    deck.pause();
+    deck.resetContext();
+    setTimeout(() => deck.play(), 100);
   }
 
   private handlePointerDown(e: PointerEvent) {
     const path = e.composedPath();
     const originalTarget = path[0] as HTMLElement;
 
+    const groupLabel = path.find((el) => el instanceof HTMLElement && el.classList.contains('group-label')) as HTMLElement | undefined;
+    if (groupLabel && originalTarget === groupLabel) {
+      // Dragging a group's label moves all of its cards.
+      this.draggedGroupId = groupLabel.dataset.groupId ?? null;
+      this.dragOffsetX = e.clientX;
+      this.dragOffsetY = e.clientY;
+      document.body.classList.add('dragging');
+      window.addEventListener('pointermove', this.handlePointerMove);
+      window.addEventListener('pointerup', this.handlePointerUp, { once: true });
+      return;
+    }
+
     const controller = path.find(
       (el) =>
         el instanceof HTMLElement &&
         (el.tagName === 'PROMPT-CONTROLLER' ||
-          el.tagName === 'AUDIO-PROMPT-CONTROLLER'),
+          el.tagName === 'AUDIO-PROMPT-CONTROLLER' ||
+          el.tagName === 'NEGATIVE-PROMPT-CONTROLLER'),
     ) as HTMLElement | undefined;
     
     // Check if the drag handle is in the shadow root of the controller
@@ -2614,6 +4572,15 @@ class PromptDj extends LitElement {
       return;
     }
 
+    if (e.shiftKey) {
+      const promptId = controller.getAttribute('promptId');
+      if (!promptId) return;
+      const selected = new Set(this.selectedPromptIds);
+      if (!selected.delete(promptId)) selected.add(promptId);
+      this.selectedPromptIds = selected;
+      return;
+    }
+
     this.draggedPromptId = controller.getAttribute('promptId');
     if (!this.draggedPromptId) return;
 
@@ -2629,6 +4596,19 @@ class PromptDj extends LitElement {
   }
 
   private handlePointerMove = (e: PointerEvent) => {
+    if (this.draggedGroupId) {
+      const dx = e.clientX - this.dragOffsetX;
+      const dy = e.clientY - this.dragOffsetY;
+      this.dragOffsetX = e.clientX;
+      this.dragOffsetY = e.clientY;
+      const newPrompts = new Map(this.prompts);
+      for (const prompt of newPrompts.values()) {
+        if (prompt.groupId !== this.draggedGroupId) continue;
+        newPrompts.set(prompt.promptId, {...prompt, x: prompt.x + dx, y: prompt.y + dy});
+      }
+      this.prompts = newPrompts;
+      return;
+    }
     if (!this.draggedPromptId) return;
     
     const prompt = this.prompts.get(this.draggedPromptId);
@@ -2647,10 +4627,11 @@ class PromptDj extends LitElement {
   };
   
   private handlePointerUp = (e: PointerEvent) => {
-    if (this.draggedPromptId) {
-        setStoredPrompts(this.prompts);
+    if (this.draggedPromptId || this.draggedGroupId) {
+        this.savePrompts(this.editDeck);
     }
     this.draggedPromptId = null;
+    this.draggedGroupId = null;
     document.body.classList.remove('dragging');
     window.removeEventListener('pointermove', this.handlePointerMove);
   };
@@ -2672,19 +4653,19 @@ class PromptDj extends LitElement {
       case 'Rate': this.sampleRateReduction = value; break;
       case 'Crackle': this.vinylCrackle = value; break;
       case 'BPM': 
-        this.bpm = value;
+        this.editDeck.config.bpm = value;
         configChanged = true;
         break;
       case 'Temp':
-        this.temperature = value;
+        this.editDeck.config.temperature = value;
         configChanged = true;
         break;
       case 'Diversity':
-        this.topK = value;
+        this.editDeck.config.topK = value;
         configChanged = true;
         break;
       case 'Guidance':
-        this.guidanceScale = value;
+        this.editDeck.config.guidanceScale = value;
         configChanged = true;
         break;
     }
@@ -2693,6 +4674,7 @@ class PromptDj extends LitElement {
     } else {
         this.updateFxChain();
     }
+    this.checkpoint(`control:${label}`);
   }
 
   private handleFxToggle(effect: string) {
@@ -2708,24 +4690,66 @@ class PromptDj extends LitElement {
       }
       this.requestUpdate();
       this.updateFxChain();
+      this.checkpoint();
   }
 
   private handleKeyChange(e: Event) {
     const target = e.target as HTMLSelectElement;
-    this.musicalKey = target.value;
+    this.editDeck.config.musicalKey = target.value;
     this.setMusicGenerationConfig();
+    this.checkpoint();
   }
 
-  private toggleMute(element: 'bass' | 'drums' | 'melody') {
-    switch(element) {
-        case 'bass': this.noBass = !this.noBass; break;
-        case 'drums': this.noDrums = !this.noDrums; break;
-        case 'melody': this.noMelody = !this.noMelody; break;
+  /** Adds the preset's negative card, or toggles its mute if the card is already there. */
+  private toggleMute(preset: NegativePreset) {
+    const existing = [...this.prompts.values()].find((p) => p.type === 'negative' && p.preset === preset);
+    const newPrompts = new Map(this.prompts);
+    if (existing) {
+      newPrompts.set(existing.promptId, {...existing, muted: !existing.muted});
+    } else {
+      const negativeCount = [...this.prompts.values()].filter((p) => p.type === 'negative').length;
+      const vmin = Math.min(window.innerWidth, window.innerHeight) / 100;
+      this.addNegativePrompt(newPrompts, NEGATIVE_PRESETS[preset].text, 2.0,
+          window.innerWidth - 28 * vmin, 4 * vmin + negativeCount * 26 * vmin, preset);
     }
-    this.setSessionPrompts();
+    this.prompts = newPrompts;
+    this.setSessionPrompts(`mute:${preset}`, [this.editDeck]);
+    this.savePrompts(this.editDeck);
+  }
+
+  private addNegativePrompt(prompts: Map<string, Prompt>, text: string, weight: number, x: number, y: number, preset?: NegativePreset) {
+    const promptId = `prompt-${this.nextPromptId++}`;
+    prompts.set(promptId, {
+      promptId,
+      type: 'negative',
+      text,
+      weight,
+      muted: false,
+      solo: false,
+      tags: [],
+      tagsEdited: false,
+      groupId: null,
+      lfo: null,
+      color: NEGATIVE_COLOR,
+      x,
+      y,
+      preset,
+    });
+    return promptId;
+  }
+
+  private handleAddNegativePrompt() {
+    const newPrompts = new Map(this.prompts);
+    const offsetX = (this.prompts.size % 10) * 20 - 100;
+    const offsetY = Math.floor(this.prompts.size / 10) * 20 - 100;
+    const promptId = this.addNegativePrompt(newPrompts, 'no vocals', 1,
+        window.innerWidth / 2 - 100 + offsetX, window.innerHeight / 2 - 250 + offsetY);
+    this.prompts = newPrompts;
+    this.setSessionPrompts(promptId, [this.editDeck]);
+    this.savePrompts(this.editDeck);
   }
   
-  private handleFxPad(fxName: string) {
+  private async handleFxPad(fxName: string) {
     if (this.performanceFxTimeout) {
         clearTimeout(this.performanceFxTimeout);
         this.performanceFxTimeout = null;
@@ -2734,20 +4758,34 @@ class PromptDj extends LitElement {
     if (this.activeFxPad === fxName) {
         // Deactivate
         this.activeFxPad = null;
-    } else {
-        // Activate
-        this.activeFxPad = fxName;
-        // Auto-deactivate after a short time
-        this.performanceFxTimeout = window.setTimeout(() => {
-            this.activeFxPad = null;
-            this.setSessionPrompts();
-        }, 2000); // Effect lasts for 2 seconds
+        this.setSessionPrompts(`pad:${fxName}`);
+        return;
     }
-    this.setSessionPrompts();
+    // Activate
+    this.activeFxPad = fxName;
+    this.setSessionPrompts(`pad:${fxName}`);
+    // Auto-deactivate a short time after the effect has launched
+    await Promise.all(this.decks.map((deck) => deck.whenLaunched()));
+    if (this.activeFxPad !== fxName) return;
+    if (this.performanceFxTimeout) clearTimeout(this.performanceFxTimeout);
+    this.performanceFxTimeout = window.setTimeout(() => {
+        this.activeFxPad = null;
+        this.setSessionPrompts(`pad:${fxName}`);
+    }, 2000); // Effect lasts for 2 seconds
   }
   
+  private get isMorphMode() {
+    return this.activeKaossProgram === 'Vector Morph';
+  }
+
   private handleKaossPointerDown(e: PointerEvent) {
     this.isKaossActive = true;
+    if (this.isMorphMode) {
+      window.addEventListener('pointermove', this.handleKaossPointerMove);
+      window.addEventListener('pointerup', this.handleKaossPointerUp);
+      this.updateKaossPosition(e);
+      return;
+    }
     
     const now = Date.now();
     if (now - this.kaossLastTap < 300) { // Double tap
@@ -2774,6 +4812,11 @@ class PromptDj extends LitElement {
   private handleKaossPointerUp = (e: PointerEvent) => {
     window.removeEventListener('pointermove', this.handleKaossPointerMove);
     window.removeEventListener('pointerup', this.handleKaossPointerUp);
+    if (this.isMorphMode) {
+      // The weights stay where the pointer left them.
+      this.isKaossActive = false;
+      return;
+    }
     if (this.isKaossHeld) return;
 
     this.isKaossActive = false;
@@ -2799,7 +4842,60 @@ class PromptDj extends LitElement {
       const x = Math.max(0, Math.min(1, (e.clientX - bounds.left) / bounds.width));
       const y = Math.max(0, Math.min(1, (e.clientY - bounds.top) / bounds.height));
       this.kaossXY = { x, y };
-      this.updateKaossFx();
+      if (this.isMorphMode) {
+        this.startMorph();
+      } else {
+        this.updateKaossFx();
+      }
+  }
+
+  private startMorph() {
+    if (this.morphTimer !== null) return;
+    this.morphLastTick = performance.now();
+    this.morphTimer = window.setInterval(() => this.stepMorph(), TRANSITION_TICK_MS);
+  }
+
+  /** Eases the morph position toward the pointer and sends the corner weights. */
+  private stepMorph() {
+    const now = performance.now();
+    const elapsed = now - this.morphLastTick;
+    this.morphLastTick = now;
+    const target = this.kaossXY;
+    this.morphXY = {
+      x: smoothTowards(this.morphXY.x, target.x, elapsed, this.morphSmoothing),
+      y: smoothTowards(this.morphXY.y, target.y, elapsed, this.morphSmoothing),
+    };
+    const settled = Math.abs(this.morphXY.x - target.x) < 0.002 && Math.abs(this.morphXY.y - target.y) < 0.002;
+    if (settled) this.morphXY = { ...target };
+
+    // A prompt pinned to several corners gets the sum of their weights.
+    const cornerWeights = morphWeights(this.morphXY.x, this.morphXY.y);
+    const weights = new Map<string, number>();
+    for (const {id} of MORPH_CORNERS) {
+      const promptId = this.morphCorners[id];
+      if (promptId && this.prompts.has(promptId)) {
+        weights.set(promptId, (weights.get(promptId) ?? 0) + cornerWeights[id]);
+      }
+    }
+    if (weights.size > 0) {
+      const newPrompts = new Map(this.prompts);
+      for (const [promptId, weight] of weights) {
+        this.editDeck.weightTransitions.delete(promptId);
+        newPrompts.set(promptId, {...newPrompts.get(promptId)!, weight});
+      }
+      this.prompts = newPrompts;
+      this.setSessionPrompts('morph', [this.editDeck]);
+    }
+
+    if (settled) {
+      clearInterval(this.morphTimer!);
+      this.morphTimer = null;
+      this.savePrompts(this.editDeck);
+    }
+  }
+
+  private setMorphCorner(corner: MorphCorner, promptId: string) {
+    this.morphCorners = { ...this.morphCorners, [corner]: promptId || null };
   }
   
   private updateKaossFx() {
@@ -2847,12 +4943,83 @@ class PromptDj extends LitElement {
   
   private handleKaossProgramChange(e: Event) {
     this.activeKaossProgram = (e.target as HTMLSelectElement).value;
-    if (this.isKaossActive) {
+    if (this.isMorphMode) {
+        // Morphing leaves the master FX alone.
+        this.isKaossActive = false;
+        this.isKaossHeld = false;
+        this.resetFxToNeutral();
+    } else if (this.isKaossActive) {
         this.updateKaossFx();
     }
   }
 
 
+  private getFilteredPromptEntries(): FilteredPromptEntry[] {
+    const cards = this.decks.flatMap((deck) => [...deck.prompts.values()])
+      .filter((p): p is TextPrompt => p.type === 'text');
+    return [...this.filteredPrompts].map(([text, reason]) => {
+      const matching = cards.filter((p) => this.getFilteredText(p) === text);
+      return {text, reason, promptText: matching[0]?.text ?? '', cardCount: matching.length};
+    });
+  }
+
+  /** Drops filters and sends the prompts again, e.g. after editing them. */
+  private clearFilters(texts: string[]) {
+    const filteredPrompts = new Map(this.filteredPrompts);
+    for (const text of texts) filteredPrompts.delete(text);
+    this.filteredPrompts = filteredPrompts;
+    this.setSessionPrompts();
+  }
+
+  private handleFilteredPromptResubmit(e: CustomEvent<{text: string, newText: string}>) {
+    const {text, newText} = e.detail;
+    for (const deck of this.decks) {
+      let changed = false;
+      const prompts = new Map(deck.prompts);
+      for (const p of prompts.values()) {
+        if (p.type !== 'text' || this.getFilteredText(p) !== text) continue;
+        const updated = {...p, text: newText};
+        if (!p.tagsEdited) updated.tags = suggestPromptTags(updated);
+        prompts.set(p.promptId, updated);
+        changed = true;
+      }
+      if (!changed) continue;
+      deck.prompts = prompts;
+      this.savePrompts(deck);
+    }
+    this.clearFilters([text]);
+    this.toastMessage.show(`Resubmitted "${newText}".`);
+  }
+
+  private getDiagnosticsSnapshot(): DiagnosticsSnapshot {
+    const deck = this.editDeck;
+    return {
+      deck: deck.id,
+      backend: this.provider.label,
+      model: this.provider.model ?? '-',
+      connectionStatus: deck.connectionStatus,
+      playbackState: deck.playbackState,
+      secondsSinceSetup: deck.diagnostics.secondsSinceSetup,
+      chunksPerSecond: deck.diagnostics.chunksPerSecond,
+      bufferDepth: deck.scheduler.bufferDepth,
+      targetBufferTime: deck.scheduler.targetBufferTime,
+      jitterTime: deck.scheduler.jitterTime,
+      underruns: deck.scheduler.underruns,
+      stream: deck.streamTracker.snapshot,
+      filteredPrompts: deck.diagnostics.filteredPrompts,
+      lastPromptPayload: deck.diagnostics.lastPromptPayload,
+      lastConfigPayload: deck.diagnostics.lastConfigPayload,
+      events: deck.diagnostics.events,
+    };
+  }
+
+  private handleDiagnosticsExport() {
+    const {filteredPrompts, lastPromptPayload, lastConfigPayload, events, ...state} = this.getDiagnosticsSnapshot();
+    const bundle = this.editDeck.diagnostics.toBundle(state);
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], {type: 'application/json'});
+    downloadBlob(blob, `prompt-dj-debug-${fileTimestamp()}.json`);
+  }
+
   override render() {
     return html`
         <h1 id="main-title" class="glitch">
@@ -2864,7 +5031,12 @@ class PromptDj extends LitElement {
         <main id="node-canvas" 
              @prompt-changed=${this.handlePromptChanged}
              @prompt-removed=${this.handlePromptRemoved}
+             @show-filtered-prompts=${() => this.isFilteredPanelVisible = true}
+             @prompt-save-to-library=${this.handleSaveToLibrary}
+             @dragover=${this.handleLibraryDragOver}
+             @drop=${this.handleLibraryDrop}
              @pointerdown=${this.handlePointerDown}>
+            ${this.renderGroups()}
             ${this.renderPrompts()}
         </main>
 
@@ -2872,16 +5044,132 @@ class PromptDj extends LitElement {
             <div class="console-section main-controls">
                 <play-pause-button
                 @click=${this.handlePlayPause}
-                .playbackState=${this.playbackState}></play-pause-button>
+                .playbackState=${this.editDeck.playbackState}
+                .connectionStatus=${this.editDeck.connectionStatus}
+                .reconnectAttempt=${this.editDeck.reconnectAttempt}></play-pause-button>
                 <record-button 
                 @click=${this.handleRecord}
                 .isRecording=${this.isRecording}></record-button>
                 <reset-button @click=${this.handleReset}></reset-button>
+                <button class="mute-button" title="Undo (Ctrl+Z)" ?disabled=${!this.history.canUndo}
+                    @click=${this.handleUndo}>UNDO</button>
+                <button class="mute-button" title="Redo (Ctrl+Shift+Z)" ?disabled=${!this.history.canRedo}
+                    @click=${this.handleRedo}>REDO</button>
+                <button class=${classMap({'mute-button': true, 'active': this.isDiagnosticsVisible})}
+                    @click=${() => this.isDiagnosticsVisible = !this.isDiagnosticsVisible}>DIAG</button>
+                <button class=${classMap({'mute-button': true, 'active': this.isPayloadPreviewVisible})}
+                    title="Preview the weighted prompts sent to the model"
+                    @click=${() => this.isPayloadPreviewVisible = !this.isPayloadPreviewVisible}>PAYLOAD</button>
+                <button class="mute-button" title="Save the whole set, audio prompts included, to a project file"
+                    @click=${this.handleSaveProject}>SAVE</button>
+                <button class="mute-button" title="Open a project file in place of the current set"
+                    @click=${() => this.handleOpenProject('replace')}>OPEN</button>
+                <button class="mute-button" title="Add the cards and scenes of a project file to the current set"
+                    @click=${() => this.handleOpenProject('merge')}>MERGE</button>
+                <div class="buffer-readout" title=${`Audio buffered ahead of the playhead / adaptive target\n${this.editDeck.streamTracker.describe()}`}>
+                    BUF ${this.editDeck.scheduler.bufferDepth.toFixed(1)}s / ${this.editDeck.scheduler.targetBufferTime.toFixed(1)}s
+                    <br>GAPS ${this.editDeck.streamTracker.snapshot.gaps} DUPES ${this.editDeck.streamTracker.snapshot.duplicates}
+                </div>
+            </div>
+            <div class="console-section engine-controls">
+                <div class="panel-header">ENGINE</div>
+                <select .value=${this.providerSettings.id}
+                    @change=${(e: Event) => this.handleProviderChange({...this.providerSettings, id: (e.target as HTMLSelectElement).value})}>
+                    ${MUSIC_PROVIDERS.map((p) => html`<option value=${p.id}>${p.label}</option>`)}
+                </select>
+                <input type="text" placeholder="model id" title="Model id"
+                    .value=${this.providerSettings.model}
+                    ?disabled=${!MUSIC_PROVIDERS.find((p) => p.id === this.providerSettings.id)?.hasModel}
+                    @change=${(e: Event) => this.handleProviderChange({...this.providerSettings, model: (e.target as HTMLInputElement).value.trim()})}>
+            </div>
+            <div class="console-section deck-controls">
+                <div class="panel-header">DECKS</div>
+                <div class="deck-tabs">
+                    <button class=${classMap({'mute-button': true, 'active': this.isDualDeck})} @click=${this.toggleDualDeck}>DUAL</button>
+                    ${this.decks.map((deck) => html`
+                        <button class=${classMap({'mute-button': true, 'active': deck.id === this.editDeckId})}
+                            title=${`Edit deck ${deck.id} (${deck.connectionStatus}, ${deck.playbackState})`}
+                            ?disabled=${!this.isDualDeck && deck.id !== 'A'}
+                            @click=${() => this.selectEditDeck(deck.id)}>${deck.id}${deck.isActive ? ' ▶' : ''}</button>`)}
+                </div>
+                <input type="range" class="crossfader" title="Crossfader" min="0" max="1" step="0.01"
+                    .value=${String(this.crossfade)}
+                    ?disabled=${!this.isDualDeck}
+                    @input=${this.handleCrossfade}>
+                <select title="Crossfader curve" .value=${this.crossfadeCurve}
+                    ?disabled=${!this.isDualDeck}
+                    @change=${this.handleCrossfadeCurveChange}>
+                    ${CROSSFADE_CURVES.map((c) => html`<option value=${c.id}>${c.label}</option>`)}
+                </select>
+            </div>
+            <div class="console-section scene-controls">
+                <div class="panel-header">SCENES</div>
+                <div class="scene-slots">
+                    ${this.scenes.map((scene, slot) => html`
+                        <button class=${classMap({
+                            'mute-button': true,
+                            'filled': !!scene,
+                            'active': slot === this.activeScene,
+                            'queued': this.isQueued(`scene:${slot}`, [this.editDeck]),
+                        })} title=${scene ? `${scene.name} (${new Date(scene.savedAt).toLocaleString()})` : 'Empty'}
+                            @click=${() => this.handleSceneSlot(slot)}>${slot + 1}</button>`)}
+                </div>
+                <div class="scene-options">
+                    <button class=${classMap({'mute-button': true, 'active': this.isSceneStoreArmed})}
+                        title="Store the current state in the next slot pressed"
+                        @click=${() => this.isSceneStoreArmed = !this.isSceneStoreArmed}>STORE</button>
+                    <input type="number" min="0" max="64" step="1" title="Morph length in bars; 0 recalls instantly"
+                        .value=${String(this.sceneMorphBars)}
+                        @change=${(e: Event) => this.sceneMorphBars = Math.max(0, (e.target as HTMLInputElement).valueAsNumber || 0)}>
+                    <span>BARS</span>
+                </div>
             </div>
             <div class="console-section prompt-controls">
                  <div class="panel-header">PROMPTS</div>
                 <add-prompt-button @click=${this.handleAddPrompt}></add-prompt-button>
                 <upload-audio-button @click=${this.handleUploadAudio}></upload-audio-button>
+                <button class="mute-button" title="Add a negative prompt: something the music should avoid"
+                    @click=${this.handleAddNegativePrompt}>NEGATIVE</button>
+                <button class="mute-button" title="Load a modifier pack from a JSON file" @click=${this.handleLoadModifierPack}>LOAD PACK</button>
+                <button class=${classMap({'mute-button': true, 'active': this.isLibraryVisible})}
+                    title="Browse saved and preset prompts"
+                    @click=${() => this.isLibraryVisible = !this.isLibraryVisible}>LIBRARY</button>
+                <button class="mute-button" title="Group the cards picked with shift-click on their handles"
+                    @click=${this.handleGroupSelected}>GROUP${this.selectedPromptIds.size ? ` (${this.selectedPromptIds.size})` : ''}</button>
+                <div class="glide-controls" title="With GLIDE on, moving a weight slider sets a target the weight glides to">
+                    <button class=${classMap({'mute-button': true, 'active': this.isGlideOn})}
+                        @click=${() => this.isGlideOn = !this.isGlideOn}>GLIDE</button>
+                    <input type="number" min="0" step="1" .value=${String(this.glideLength)}
+                        @change=${(e: Event) => this.glideLength = Math.max(0, (e.target as HTMLInputElement).valueAsNumber || 0)}>
+                    <select .value=${this.glideUnit}
+                        @change=${(e: Event) => this.glideUnit = (e.target as HTMLSelectElement).value as TransitionUnit}>
+                        <option value="bars">bars</option>
+                        <option value="seconds">sec</option>
+                    </select>
+                </div>
+                <div class="surprise-controls" title="Replace the cards with a generated set">
+                    <button class="mute-button" @click=${this.handleSurprise}>SURPRISE</button>
+                    <input type="number" min="2" max="6" step="1" title="Number of prompts" .value=${String(this.surpriseCount)}
+                        @change=${(e: Event) => this.surpriseCount = Math.max(2, Math.min(6, (e.target as HTMLInputElement).valueAsNumber || 4))}>
+                    <select title="Energy" .value=${this.surpriseEnergy}
+                        @change=${(e: Event) => this.surpriseEnergy = (e.target as HTMLSelectElement).value as Energy}>
+                        <option value="low">low</option>
+                        <option value="medium">med</option>
+                        <option value="high">high</option>
+                    </select>
+                    <button class=${classMap({'mute-button': true, 'active': this.surpriseKeepDrums})}
+                        title="Keep the drum cards and generate no new drums"
+                        @click=${() => this.surpriseKeepDrums = !this.surpriseKeepDrums}>KEEP DRUMS</button>
+                    <input type="number" min="0" step="1" placeholder="seed" title="Seed; leave empty for a random one"
+                        .value=${this.surpriseSeed === null ? '' : String(this.surpriseSeed)}
+                        @change=${(e: Event) => {
+                            const value = (e.target as HTMLInputElement).valueAsNumber;
+                            this.surpriseSeed = Number.isFinite(value) ? Math.floor(value) : null;
+                        }}>
+                </div>
+                <button class=${classMap({'mute-button': true, 'active': this.isFilteredPanelVisible})}
+                    title="Prompts the server filtered out"
+                    @click=${() => this.isFilteredPanelVisible = !this.isFilteredPanelVisible}>FILTERED (${this.filteredPrompts.size})</button>
             </div>
              <div class="console-section master-visualizer">
                 <div id="kaoss-pad" 
@@ -2890,41 +5178,68 @@ class PromptDj extends LitElement {
                     <div id="kaoss-crosshair" style=${styleMap({
                         left: `${this.kaossXY.x * 100}%`,
                         top: `${this.kaossXY.y * 100}%`,
-                        opacity: this.isKaossActive ? 1 : 0
+                        opacity: this.isKaossActive || this.isMorphMode ? 1 : 0
                     })}></div>
+                    ${this.isMorphMode ? MORPH_CORNERS.map(({id}) => {
+                        const prompt = this.morphCorners[id] ? this.prompts.get(this.morphCorners[id]!) : undefined;
+                        return html`<div class="morph-label ${id}">${prompt ? `${promptLabel(prompt)} ${prompt.weight.toFixed(2)}` : '—'}</div>`;
+                    }) : ''}
                 </div>
                 <div class="kaoss-controls">
                     <select @change=${this.handleKaossProgramChange} .value=${this.activeKaossProgram}>
                         <option>LPF Sweep Delay</option>
                         <option>HPF + Reverb Wash</option>
+                        <option>Vector Morph</option>
                     </select>
-                    <button class=${classMap({active: this.isKaossHeld})} @click=${() => this.isKaossHeld = !this.isKaossHeld}>HOLD</button>
+                    ${this.isMorphMode ? html`
+                        <input type="number" min="0" step="50" title="Smoothing (ms)" .value=${String(this.morphSmoothing)}
+                            @change=${(e: Event) => this.morphSmoothing = Math.max(0, (e.target as HTMLInputElement).valueAsNumber || 0)}>`
+                    : html`<button class=${classMap({active: this.isKaossHeld})} @click=${() => this.isKaossHeld = !this.isKaossHeld}>HOLD</button>`}
                 </div>
+                ${this.isMorphMode ? html`<div class="kaoss-controls morph-corners">
+                    ${MORPH_CORNERS.map(({id, label}) => html`
+                        <select title=${`${label} corner`} .value=${this.morphCorners[id] ?? ''}
+                            @change=${(e: Event) => this.setMorphCorner(id, (e.target as HTMLSelectElement).value)}>
+                            <option value="">${label}: none</option>
+                            ${[...this.prompts.values()].map((p) => html`<option value=${p.promptId}
+                                ?selected=${p.promptId === this.morphCorners[id]}>${promptLabel(p)}</option>`)}
+                        </select>`)}
+                </div>` : ''}
             </div>
              <div id="music-controls-panel" class="console-section">
-                <div class="panel-header">MUSIC CONTROLS</div>
+                <div class="panel-header">MUSIC CONTROLS${this.isDualDeck ? ` [DECK ${this.editDeckId}]` : ''}${this.isQueued('config', [this.editDeck]) ? ' [QUEUED]' : ''}</div>
                 <div class="controls-grid" @fx-change=${this.handleControlChange}>
                     <div class="control-label">BPM</div>
-                    <fx-slider label="BPM" min="60" max="180" step="1" .value=${this.bpm} unit=""></fx-slider>
+                    <fx-slider label="BPM" min="60" max="180" step="1" .value=${this.editDeck.config.bpm} unit=""></fx-slider>
                     
                     <div class="control-label">KEY</div>
-                    <select class="key-selector" @change=${this.handleKeyChange} .value=${this.musicalKey}>
+                    <select class="key-selector" @change=${this.handleKeyChange} .value=${this.editDeck.config.musicalKey}>
                         ${ALL_KEYS.map(key => html`<option value=${key}>${key}</option>`)}
                     </select>
 
                     <div class="control-label" title="Controls randomness. Higher values are more creative.">TEMP</div>
-                    <fx-slider label="Temp" min="0" max="1" step="0.01" .value=${this.temperature}></fx-slider>
+                    <fx-slider label="Temp" min="0" max="1" step="0.01" .value=${this.editDeck.config.temperature}></fx-slider>
                     
                     <div class="control-label" title="Controls variety. Higher values are more diverse.">DIVERSITY</div>
-                    <fx-slider label="Diversity" min="1" max="50" step="1" .value=${this.topK}></fx-slider>
+                    <fx-slider label="Diversity" min="1" max="50" step="1" .value=${this.editDeck.config.topK}></fx-slider>
                     
                     <div class="control-label" title="How strongly the model follows the prompts.">GUIDANCE</div>
-                    <fx-slider label="Guidance" min="1" max="20" step="0.5" .value=${this.guidanceScale}></fx-slider>
+                    <fx-slider label="Guidance" min="1" max="20" step="0.5" .value=${this.editDeck.config.guidanceScale}></fx-slider>
+
+                    <div class="control-label" title="Holds prompt, mute, pad and music control changes until the next boundary while playing.">LAUNCH</div>
+                    <select class="key-selector" .value=${this.launchQuantize}
+                        @change=${(e: Event) => this.launchQuantize = (e.target as HTMLSelectElement).value as LaunchQuantize}>
+                        ${LAUNCH_QUANTIZE_OPTIONS.map((o) => html`<option value=${o.id}>${o.label}</option>`)}
+                    </select>
                 </div>
                 <div class="mute-controls">
-                  <button class=${classMap({'mute-button': true, 'active': this.noBass})} @click=${() => this.toggleMute('bass')}>NO BASS</button>
-                  <button class=${classMap({'mute-button': true, 'active': this.noDrums})} @click=${() => this.toggleMute('drums')}>NO DRUMS</button>
-                  <button class=${classMap({'mute-button': true, 'active': this.noMelody})} @click=${() => this.toggleMute('melody')}>NO MELODY</button>
+                  ${(Object.keys(NEGATIVE_PRESETS) as NegativePreset[]).map((preset) => html`
+                  <button class=${classMap({
+                      'mute-button': true,
+                      'active': isNegativePresetOn(this.prompts, this.groups, preset),
+                      'queued': this.isQueued(`mute:${preset}`, [this.editDeck]),
+                  })} title=${`Add or mute the "${NEGATIVE_PRESETS[preset].text}" negative card`}
+                      @click=${() => this.toggleMute(preset)}>${NEGATIVE_PRESETS[preset].label}</button>`)}
                 </div>
             </div>
             <div id="fx-panel" class="console-section">
@@ -2965,34 +5280,122 @@ class PromptDj extends LitElement {
             <div class="console-section performance-fx">
                 <div class="panel-header">PERFORMANCE FX</div>
                 <div class="performance-fx-pads">
-                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Filter Sweep'})} @click=${() => this.handleFxPad('Filter Sweep')}>Filter Sweep</button>
-                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Riser'})} @click=${() => this.handleFxPad('Riser')}>Riser</button>
-                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Beat Mute'})} @click=${() => this.handleFxPad('Beat Mute')}>Beat Mute</button>
-                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Glitch Stutter'})} @click=${() => this.handleFxPad('Glitch Stutter')}>Glitch Stutter</button>
-                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Tape Stop'})} @click=${() => this.handleFxPad('Tape Stop')}>Tape Stop</button>
-                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Vinyl Break'})} @click=${() => this.handleFxPad('Vinyl Break')}>Vinyl Break</button>
+                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Filter Sweep', 'queued': this.isQueued('pad:Filter Sweep')})} @click=${() => this.handleFxPad('Filter Sweep')}>Filter Sweep</button>
+                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Riser', 'queued': this.isQueued('pad:Riser')})} @click=${() => this.handleFxPad('Riser')}>Riser</button>
+                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Beat Mute', 'queued': this.isQueued('pad:Beat Mute')})} @click=${() => this.handleFxPad('Beat Mute')}>Beat Mute</button>
+                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Glitch Stutter', 'queued': this.isQueued('pad:Glitch Stutter')})} @click=${() => this.handleFxPad('Glitch Stutter')}>Glitch Stutter</button>
+                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Tape Stop', 'queued': this.isQueued('pad:Tape Stop')})} @click=${() => this.handleFxPad('Tape Stop')}>Tape Stop</button>
+                    <button class=${classMap({'fx-pad': true, 'active': this.activeFxPad === 'Vinyl Break', 'queued': this.isQueued('pad:Vinyl Break')})} @click=${() => this.handleFxPad('Vinyl Break')}>Vinyl Break</button>
                 </div>
             </div>
         </div>
+      ${this.isFilteredPanelVisible ? html`<filtered-prompts-panel side="left"
+          .entries=${this.getFilteredPromptEntries()}
+          @filtered-prompt-resubmit=${this.handleFilteredPromptResubmit}
+          @filtered-prompt-clear=${(e: CustomEvent<string>) => this.clearFilters([e.detail])}
+          @filtered-prompts-clear-all=${() => this.clearFilters([...this.filteredPrompts.keys()])}
+          @filtered-prompts-close=${() => this.isFilteredPanelVisible = false}></filtered-prompts-panel>` : ''}
+      ${this.isLibraryVisible ? html`<prompt-library-panel side="left"
+          style=${styleMap({'--drawer-offset': this.isFilteredPanelVisible ? DRAWER_WIDTH : '0'})}
+          .entries=${this.library}
+          @library-add=${(e: CustomEvent<string>) => this.addLibraryPrompt(e.detail)}
+          @library-toggle-favorite=${this.handleLibraryToggleFavorite}
+          @library-remove=${this.handleLibraryRemove}
+          @library-import=${this.handleLibraryImport}
+          @library-export=${this.handleLibraryExport}
+          @library-close=${() => this.isLibraryVisible = false}></prompt-library-panel>` : ''}
+      ${this.isPayloadPreviewVisible ? html`<payload-preview-panel
+          style=${styleMap({'--drawer-offset': this.isDiagnosticsVisible ? DRAWER_WIDTH : '0'})}
+          .entries=${this.compileWeightedPrompts(this.editDeck)}
+          .deck=${this.isDualDeck ? this.editDeckId : ''}
+          @payload-preview-close=${() => this.isPayloadPreviewVisible = false}></payload-preview-panel>` : ''}
+      ${this.isDiagnosticsVisible ? html`<diagnostics-panel
+          .snapshot=${this.getDiagnosticsSnapshot()}
+          @diagnostics-export=${this.handleDiagnosticsExport}
+          @diagnostics-close=${() => this.isDiagnosticsVisible = false}></diagnostics-panel>` : ''}
       <toast-message></toast-message>
     `;
   }
 
+  /** Draws each group as a labeled region around its cards. */
+  private renderGroups() {
+    const vmin = Math.min(window.innerWidth, window.innerHeight) / 100;
+    return [...this.groups.values()].map((group) => {
+      const members = [...this.prompts.values()].filter((p) => p.groupId === group.id);
+      if (members.length === 0) return '';
+      // Cards are 25vmin wide; negative cards are 24vmin high and the rest 42vmin.
+      const bounds = groupBounds(members.map((p) => ({
+        x: p.x,
+        y: p.y,
+        width: 25 * vmin,
+        height: (p.type === 'negative' ? 24 : 42) * vmin,
+      })));
+      return html`<div class=${classMap({'group-region': true, muted: group.muted})} style=${styleMap({
+          transform: `translate(${bounds.x}px, ${bounds.y}px)`,
+          width: `${bounds.width}px`,
+          height: `${bounds.height}px`,
+          'border-color': group.color,
+          '--group-color': group.color,
+        })}>
+        <div class="group-label" data-group-id=${group.id}>
+          <input class="group-name" .value=${group.name}
+              @change=${(e: Event) => this.updateGroup(group.id, {name: (e.target as HTMLInputElement).value.trim() || group.name})}>
+          <input type="range" min="0" max="2" step="0.01" title=${`Macro ${group.macro.toFixed(2)}`}
+              .value=${String(group.macro)}
+              @input=${(e: Event) => this.updateGroup(group.id, {macro: (e.target as HTMLInputElement).valueAsNumber}, false)}
+              @change=${(e: Event) => this.updateGroup(group.id, {macro: (e.target as HTMLInputElement).valueAsNumber})}>
+          <button class=${classMap({'mute-button': true, active: group.muted, queued: this.isQueued(`group:${group.id}`, [this.editDeck])})}
+              title="Mute the group" @click=${() => this.updateGroup(group.id, {muted: !group.muted})}>M</button>
+          <button class="mute-button" title="Ungroup" @click=${() => this.ungroup(group.id)}>X</button>
+        </div>
+      </div>`;
+    });
+  }
+
   private renderPrompts() {
+    const anySolo = [...this.prompts.values()].some((p) => p.solo && p.type !== 'negative');
     return [...this.prompts.values()].map((prompt) => {
+      const groupMuted = !!prompt.groupId && !!this.groups.get(prompt.groupId)?.muted;
+      const silenced = prompt.muted || groupMuted || (anySolo && !prompt.solo && prompt.type !== 'negative');
       const style = styleMap({
         transform: `translate(${prompt.x}px, ${prompt.y}px)`,
       });
-      if (prompt.type === 'text') {
+      if (prompt.type === 'negative') {
+        return html`<negative-prompt-controller style=${style}
+          .promptId=${prompt.promptId}
+          .text=${prompt.text}
+          .weight=${prompt.weight}
+          .color=${prompt.color}
+          .queued=${this.isQueued(prompt.promptId, [this.editDeck])}
+          .targetWeight=${this.editDeck.weightTransitions.get(prompt.promptId)?.to ?? null}
+          .lfo=${prompt.lfo}
+          .modulatedWeight=${this.lfoWeight(prompt, this.editDeck)}
+          .muted=${prompt.muted}
+          .silenced=${silenced}
+          .selected=${this.selectedPromptIds.has(prompt.promptId)}>
+        </negative-prompt-controller>`;
+      } else if (prompt.type === 'text') {
         return html`<prompt-controller style=${style}
           .promptId=${prompt.promptId}
-          filtered=${this.filteredPrompts.has(prompt.text)}
+          .filtered=${this.isFiltered(prompt)}
+          .filteredReason=${this.filteredPrompts.get(this.getFilteredText(prompt) ?? '') ?? ''}
           .text=${prompt.text}
           .weight=${prompt.weight}
           .color=${prompt.color}
           .modifiers=${prompt.modifiers}
+          .modifierPack=${this.getModifierPack(prompt.modifierPack)}
+          .packs=${this.modifierPacks}
+          .queued=${this.isQueued(prompt.promptId, [this.editDeck])}
+          .targetWeight=${this.editDeck.weightTransitions.get(prompt.promptId)?.to ?? null}
+          .lfo=${prompt.lfo}
+          .modulatedWeight=${this.lfoWeight(prompt, this.editDeck)}
+          .muted=${prompt.muted}
+          .solo=${prompt.solo}
+          .silenced=${silenced}
+          .tags=${prompt.tags}
+          .selected=${this.selectedPromptIds.has(prompt.promptId)}
           .frequencyData=${this.frequencyData}
-          .bpm=${this.bpm}>
+          .bpm=${this.editDeck.config.bpm}>
         </prompt-controller>`;
       } else { // audio prompt
         return html`<audio-prompt-controller style=${style}
@@ -3003,57 +5406,50 @@ class PromptDj extends LitElement {
           .color=${prompt.color}
           .text=${(prompt as AudioPrompt).text}
           .variation=${(prompt as AudioPrompt).variation}
+          .queued=${this.isQueued(prompt.promptId, [this.editDeck])}
+          .targetWeight=${this.editDeck.weightTransitions.get(prompt.promptId)?.to ?? null}
+          .lfo=${prompt.lfo}
+          .modulatedWeight=${this.lfoWeight(prompt, this.editDeck)}
+          .muted=${prompt.muted}
+          .solo=${prompt.solo}
+          .silenced=${silenced}
+          .tags=${prompt.tags}
+          .selected=${this.selectedPromptIds.has(prompt.promptId)}
           .frequencyData=${this.frequencyData}
-          .bpm=${this.bpm}>
+          .bpm=${this.editDeck.config.bpm}>
         </audio-prompt-controller>`;
       }
     });
   }
 }
 
-function gen(parent: HTMLElement) {
-  const initialPrompts = getStoredPrompts();
+const promptStore = new PromptStore(PROMPT_SCHEMA_VERSION);
 
-  const pdj = new PromptDj(initialPrompts);
+async function gen(parent: HTMLElement) {
+  await promptStore.open();
+  const [promptsA, promptsB] = await Promise.all([getStoredPrompts('prompts'), getStoredPrompts('prompts-deck-b')]);
+  const pdj = new PromptDj(promptsA, promptsB, await getScenes());
   parent.appendChild(pdj);
 }
 
-function getStoredPrompts(): Map<string, Prompt> {
-  const {localStorage} = window;
-  const storedPrompts = localStorage.getItem('prompts');
-
-  if (storedPrompts) {
-    try {
-      // Use `any` to handle legacy prompt structures flexibly.
-      const parsedPrompts = JSON.parse(storedPrompts) as any[];
-      const prompts = parsedPrompts.map((p) => {
-        if (p.type === 'text') {
-          const defaultModifiers = { style: 'Normal', character: 'Default', effect: 'None', density: 0.5, tone: 0 };
-          // Backwards compatibility for text prompts saved before modifiers.
-          p.modifiers = { ...defaultModifiers, ...(p.modifiers || {}) };
-        } else if (p.type === 'audio') {
-          // Audio prompts no longer use modifiers. Remove them if they exist
-          // from older versions stored in localStorage.
-          delete p.modifiers;
-          
-          // Add new fields with defaults if they don't exist
-          p.text = p.text || 'Direct Reference...';
-          p.variation = p.variation ?? 0.1;
-
-          // Re-hydrate waveform data if it's a plain array.
-          if (p.waveformData && !(p.waveformData instanceof Float32Array)) {
-            p.waveformData = new Float32Array(p.waveformData as number[]);
-          }
-        }
-        return p as Prompt;
-      });
-      return new Map(prompts.map((prompt) => [prompt.promptId, prompt]));
-    } catch (e) {
-      console.error('Failed to parse stored prompts', e);
-    }
+async function getStoredPrompts(key: string): Promise<Map<string, Prompt>> {
+  try {
+    const stored = await promptStore.load(key);
+    if (stored) {
+      const {prompts, quarantined} = upgradePrompts(stored.prompts, stored.version);
+      if (quarantined.length) promptStore.quarantine(key, quarantined);
+      const promptMap = toPromptMap(prompts);
+      // Saving writes the upgrade and drops the quarantined records.
+      if (stored.version < PROMPT_SCHEMA_VERSION || quarantined.length) setStoredPrompts(promptMap, key);
+      return promptMap;
+    }
+  } catch (e) {
+    // Start empty rather than with defaults, which look like the set was lost.
+    console.error('Failed to load stored prompts', e);
+    promptStore.loadFailed(key, e);
+    return new Map();
   }
-  
-  const defaultTextModifiers = { style: 'Normal', character: 'Default', effect: 'None', density: 0.5, tone: 0 };
+
   const numDefaultPrompts = Math.min(4, PROMPT_TEXT_PRESETS.length);
   const shuffledPresetTexts = [...PROMPT_TEXT_PRESETS].sort(
     () => Math.random() - 0.5,
@@ -3072,7 +5468,14 @@ function getStoredPrompts(): Map<string, Prompt> {
       color,
       x: window.innerWidth * 0.2 + (i * window.innerWidth * 0.15),
       y: window.innerHeight * 0.4,
-      modifiers: { ...defaultTextModifiers },
+      muted: false,
+      solo: false,
+      tags: suggestTags(text),
+      tagsEdited: false,
+      groupId: null,
+      lfo: null,
+      modifierPack: DEFAULT_MODIFIER_PACK_ID,
+      modifiers: defaultModifierValues(DEFAULT_MODIFIER_PACK),
     });
   }
   const promptsToActivate = [...defaultPrompts].sort(() => Math.random() - 0.5);
@@ -3085,16 +5488,109 @@ function getStoredPrompts(): Map<string, Prompt> {
   return new Map(defaultPrompts.map((p) => [p.promptId, p]));
 }
 
-function setStoredPrompts(prompts: Map<string, Prompt>) {
-  const promptsToStore = [...prompts.values()].map(p => {
+/** How a prompt is named in lists: its text, or the file name of an audio card. */
+function promptLabel(prompt: Prompt) {
+  return prompt.type === 'audio' ? prompt.name : prompt.text;
+}
+
+/** Whether the NO button's negative card is on the deck and sounding. */
+function isNegativePresetOn(prompts: Map<string, Prompt>, groups: Map<string, PromptGroup>, preset: NegativePreset) {
+  return [...prompts.values()].some((p) => p.type === 'negative' && p.preset === preset && !p.muted &&
+      p.weight > 0.01 && !(p.groupId && groups.get(p.groupId)?.muted));
+}
+
+/**
+ * Suggests tags from a text card's text, or an audio card's file name and
+ * direction. Negative cards get none, so the tag mutes never drop them.
+ */
+function suggestPromptTags(prompt: Prompt): InstrumentTag[] {
+  if (prompt.type === 'negative') return [];
+  return suggestTags(prompt.type === 'text' ? prompt.text : `${prompt.name} ${prompt.text}`);
+}
+
+/**
+ * Prompts from saved data, upgraded from schema `version` and leaving out any
+ * that are broken. Scenes and project files do not record a version, so they
+ * run every migration; those only fill in what is missing.
+ */
+function parseStoredPrompts(records: unknown[], version = 0): Map<string, Prompt> {
+  const {prompts, quarantined} = upgradePrompts(records, version);
+  for (const {record, reason} of quarantined) console.warn(`Skipped a saved prompt (${reason})`, record);
+  return toPromptMap(prompts);
+}
+
+function toPromptMap(prompts: PromptRecord[]): Map<string, Prompt> {
+  for (const p of prompts) {
+    // Re-hydrate waveform data saved as a plain array.
+    if (p.type === 'audio' && !(p.waveformData instanceof Float32Array)) {
+      p.waveformData = new Float32Array(p.waveformData as number[]);
+    }
+  }
+  return new Map(prompts.map((p) => [p.promptId, p as Prompt]));
+}
+
+/** Prompts in a JSON-friendly form, with waveforms as plain arrays. */
+function serializePrompts(prompts: Map<string, Prompt>) {
+  return [...prompts.values()].map(p => {
     if (p.type === 'audio' && p.waveformData instanceof Float32Array) {
       return { ...p, waveformData: Array.from(p.waveformData) };
     }
     return p;
   });
-  const storedPrompts = JSON.stringify(promptsToStore);
-  const {localStorage} = window;
-  localStorage.setItem('prompts', storedPrompts);
+}
+
+function setStoredPrompts(prompts: Map<string, Prompt>, key: string) {
+  promptStore.save(key, [...prompts.values()]);
+}
+
+/** The saved scenes, with their prompts from the prompt store. */
+async function getScenes(): Promise<(Scene<ProjectPrompt> | null)[]> {
+  const stored = getStoredScenes<ProjectPrompt>();
+  const scenes = await Promise.all(stored.map(async (record, slot) => {
+    if (!record) return null;
+    // Scenes saved by earlier versions carry their prompts.
+    const {prompts: legacyPrompts = [], ...rest} = record;
+    let prompts = legacyPrompts;
+    try {
+      const saved = await promptStore.load(sceneStorageKey(slot));
+      if (saved) prompts = serializePrompts(toPromptMap(saved.prompts as PromptRecord[])) as ProjectPrompt[];
+    } catch (e) {
+      console.error(`Failed to load the prompts of scene ${slot + 1}`, e);
+      promptStore.loadFailed(sceneStorageKey(slot), e);
+    }
+    return {...rest, prompts};
+  }));
+  if (stored.some((record) => record?.prompts)) {
+    // Drop the prompts from localStorage only once the prompt store has them.
+    await Promise.all(scenes.map((scene, slot) => scene && promptStore.save(sceneStorageKey(slot), scene.prompts as StoredPrompt[])));
+    if (scenes.every((scene, slot) => !scene || promptStore.isStored(sceneStorageKey(slot)))) {
+      try {
+        setStoredScenes(scenes);
+      } catch (e) {
+        console.error('Failed to move scenes to the prompt store', e);
+      }
+    }
+  }
+  return scenes;
+}
+
+/**
+ * Saves the scenes, their prompts with the audio to the prompt store and the
+ * rest to localStorage. Throws if localStorage is full.
+ */
+function storeScenes(scenes: (Scene<ProjectPrompt> | null)[]) {
+  scenes.forEach((scene, slot) => {
+    if (scene) promptStore.save(sceneStorageKey(slot), scene.prompts as StoredPrompt[]);
+    else promptStore.remove(sceneStorageKey(slot));
+  });
+  setStoredScenes(scenes);
+}
+
+/** What to tell the user when saving `what` failed. */
+function saveFailedMessage(what: string, e: unknown) {
+  return (e as DOMException)?.name === 'QuotaExceededError'
+    ? `Storage is full, so ${what} could not be saved. Remove some audio prompts to free up space.`
+    : `Failed to save ${what}: ${(e as Error)?.message ?? e}`;
 }
 
 function main(container: HTMLElement) {
@@ -3114,8 +5610,14 @@ declare global {
     'record-button': RecordButton;
     'reset-button': ResetButton;
     'weight-slider': WeightSlider;
+    'lfo-editor': LfoEditor;
     'toast-message': ToastMessage;
     'fx-slider': FxSlider;
+    'diagnostics-panel': DiagnosticsPanel;
+    'filtered-prompts-panel': FilteredPromptsPanel;
+    'payload-preview-panel': PayloadPreviewPanel;
+    'prompt-library-panel': PromptLibraryPanel;
+    'negative-prompt-controller': NegativePromptController;
     'rotary-knob': RotaryKnob;
   }
 }
\ No newline at end of file
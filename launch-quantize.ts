@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {BarClock} from './bar-clock';
+
+type LaunchQuantize = 'off' | 'beat' | 'bar' | '4bars' | '8bars';
+
+const LAUNCH_QUANTIZE_OPTIONS: {id: LaunchQuantize; label: string; beats: number}[] = [
+  {id: 'off', label: 'Off', beats: 0},
+  {id: 'beat', label: '1 beat', beats: 1},
+  {id: 'bar', label: '1 bar', beats: 4},
+  {id: '4bars', label: '4 bars', beats: 16},
+  {id: '8bars', label: '8 bars', beats: 32},
+];
+
+/** Length of a quantize step in bars, or 0 when quantization is off. */
+function quantizeStep(quantize: LaunchQuantize) {
+  const beats = LAUNCH_QUANTIZE_OPTIONS.find((o) => o.id === quantize)?.beats ?? 0;
+  return beats / 4;
+}
+
+/** The first boundary at or after `time` on a grid of `quantize` steps of `clock`. */
+function nextLaunchTime(quantize: LaunchQuantize, clock: BarClock, time: number) {
+  const step = quantizeStep(quantize);
+  if (step <= 0 || !clock.isRunning) return time;
+  const bars = clock.barsAt(time);
+  if (bars <= 0) return clock.timeAt(0);
+  // A little slack so a change right on a boundary is not pushed a whole step.
+  return clock.timeAt(Math.ceil(bars / step - 1e-3) * step);
+}
+
+export {LAUNCH_QUANTIZE_OPTIONS, nextLaunchTime, quantizeStep};
+export type {LaunchQuantize};
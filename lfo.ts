@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+type LfoShape = 'sine' | 'triangle' | 'square' | 'random' | 'sampleHold';
+
+/** A tempo-synced modulator on a prompt's weight. */
+interface Lfo {
+  shape: LfoShape;
+  /** Length of one cycle in bars. */
+  rate: number;
+  /** How far the weight swings either way, 0-1. */
+  depth: number;
+  /** Offset into the cycle, 0-1. */
+  phase: number;
+}
+
+const LFO_SHAPES: {id: LfoShape; label: string}[] = [
+  {id: 'sine', label: 'Sine'},
+  {id: 'triangle', label: 'Triangle'},
+  {id: 'square', label: 'Square'},
+  {id: 'random', label: 'Random'},
+  {id: 'sampleHold', label: 'S&H'},
+];
+
+const LFO_RATES = [0.25, 0.5, 1, 2, 4, 8, 16];
+
+const DEFAULT_LFO: Lfo = {shape: 'sine', rate: 4, depth: 0.5, phase: 0};
+
+/** Random steps per cycle of the sample-and-hold shape. */
+const SAMPLE_HOLD_STEPS = 4;
+
+/** A repeatable pseudo-random value in [-1, 1] for an integer and a seed. */
+function noise(n: number, seed: number) {
+  let h = Math.imul(n ^ seed, 0x45d9f3b);
+  h = Math.imul(h ^ (h >>> 16), 0x45d9f3b);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 4294967295) * 2 - 1;
+}
+
+/**
+ * The LFO output in [-1, 1] after `bars` bars. `seed` keeps the random
+ * shapes of different prompts apart.
+ */
+function lfoValue(lfo: Lfo, bars: number, seed = 0) {
+  const cycles = bars / lfo.rate + lfo.phase;
+  const t = cycles - Math.floor(cycles);
+  switch (lfo.shape) {
+    case 'sine': return Math.sin(2 * Math.PI * t);
+    case 'triangle': return 1 - 4 * Math.abs(t - 0.5);
+    case 'square': return t < 0.5 ? 1 : -1;
+    case 'random': {
+      // Smoothly interpolated noise, one new value per cycle.
+      const i = Math.floor(cycles);
+      const eased = t * t * (3 - 2 * t);
+      return noise(i, seed) + (noise(i + 1, seed) - noise(i, seed)) * eased;
+    }
+    case 'sampleHold': return noise(Math.floor(cycles * SAMPLE_HOLD_STEPS), seed);
+  }
+}
+
+/** The weight with the LFO applied, kept in the 0-2 weight range. */
+function modulatedWeight(weight: number, lfo: Lfo, bars: number, seed = 0) {
+  return Math.max(0, Math.min(2, weight + lfo.depth * lfoValue(lfo, bars, seed)));
+}
+
+/** A seed for the random shapes, from a prompt id. */
+function lfoSeed(id: string) {
+  let h = 0;
+  for (let i = 0; i < id.length; i++) h = Math.imul(h, 31) + id.charCodeAt(i);
+  return h;
+}
+
+export {DEFAULT_LFO, LFO_RATES, LFO_SHAPES, lfoSeed, lfoValue, modulatedWeight};
+export type {Lfo, LfoShape};
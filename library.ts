@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {DEFAULT_MODIFIER_PACK, DEFAULT_MODIFIER_PACK_ID, defaultModifierValues, type ModifierValues} from './modifiers';
+import {suggestTags} from './tags';
+
+/** A prompt in the library, with what it takes to recreate its card. */
+interface LibraryEntry {
+  readonly id: string;
+  text: string;
+  category: string;
+  tags: string[];
+  favorite: boolean;
+  /** Card color; a free one is picked when the entry has none. */
+  color?: string;
+  modifierPack: string;
+  modifiers: ModifierValues;
+  /** Built-in entries come from the presets and cannot be removed. */
+  builtin?: boolean;
+}
+
+interface LibraryFilter {
+  query: string;
+  category: string; // '' for any
+  tag: string; // '' for any
+  favoritesOnly: boolean;
+}
+
+const PROMPT_TEXT_PRESETS = [
+  'Bossa Nova',
+  'Minimal Techno',
+  'Drum and Bass',
+  'Post Punk',
+  'Shoegaze',
+  'Funk',
+  'Chiptune',
+  'Lush Strings',
+  'Sparkling Arpeggios',
+  'Staccato Rhythms',
+  'Punchy Kick',
+  'Dubstep',
+  'K Pop',
+  'Neo Soul',
+  'Trip Hop',
+  'Thrash',
+];
+
+const SAVED_CATEGORY = 'Saved';
+
+const PRESET_CATEGORIES: Record<string, string> = {
+  'Lush Strings': 'Instruments',
+  'Sparkling Arpeggios': 'Instruments',
+  'Staccato Rhythms': 'Rhythm',
+  'Punchy Kick': 'Rhythm',
+};
+
+const BUILTIN_LIBRARY: LibraryEntry[] = PROMPT_TEXT_PRESETS.map((text) => ({
+  id: `preset:${text}`,
+  text,
+  category: PRESET_CATEGORIES[text] ?? 'Genres',
+  tags: suggestTags(text),
+  favorite: false,
+  modifierPack: DEFAULT_MODIFIER_PACK_ID,
+  modifiers: defaultModifierValues(DEFAULT_MODIFIER_PACK),
+  builtin: true,
+}));
+
+/** Entries that match the search text and every filter that is set. */
+function searchLibrary(entries: LibraryEntry[], filter: LibraryFilter) {
+  const query = filter.query.trim().toLowerCase();
+  return entries.filter((e) =>
+    (!query || e.text.toLowerCase().includes(query) || e.tags.some((t) => t.includes(query))) &&
+    (!filter.category || e.category === filter.category) &&
+    (!filter.tag || e.tags.includes(filter.tag)) &&
+    (!filter.favoritesOnly || e.favorite));
+}
+
+/** Checks entries loaded from JSON, throwing an Error that says what is wrong. */
+function parseLibraryEntries(json: unknown): LibraryEntry[] {
+  const entries = (json as {entries?: unknown})?.entries;
+  if (!Array.isArray(entries)) throw new Error('A library file needs an "entries" list.');
+  return entries.map((e: LibraryEntry, i) => {
+    if (typeof e?.text !== 'string' || !e.text.trim()) throw new Error(`Entry ${i + 1} needs a "text".`);
+    return {
+      id: typeof e.id === 'string' && e.id ? e.id : `user:${Date.now().toString(36)}-${i}`,
+      text: e.text.trim(),
+      category: typeof e.category === 'string' && e.category ? e.category : SAVED_CATEGORY,
+      tags: Array.isArray(e.tags) ? e.tags.filter((t) => typeof t === 'string') : suggestTags(e.text),
+      favorite: e.favorite === true,
+      color: typeof e.color === 'string' ? e.color : undefined,
+      modifierPack: typeof e.modifierPack === 'string' ? e.modifierPack : DEFAULT_MODIFIER_PACK_ID,
+      modifiers: e.modifiers && typeof e.modifiers === 'object' ? e.modifiers : {},
+    };
+  });
+}
+
+/**
+ * The library as stored: the saved entries, followed by the built-in ones
+ * with the favorites marked.
+ */
+function getStoredLibrary(): LibraryEntry[] {
+  let saved: LibraryEntry[] = [];
+  let favorites: string[] = [];
+  try {
+    saved = parseLibraryEntries({entries: JSON.parse(localStorage.getItem('promptLibrary') ?? '[]')});
+    favorites = JSON.parse(localStorage.getItem('promptLibraryFavorites') ?? '[]') as string[];
+  } catch (e) {
+    console.error('Failed to parse the stored prompt library', e);
+  }
+  return [...saved, ...BUILTIN_LIBRARY.map((e) => ({...e, favorite: favorites.includes(e.id)}))];
+}
+
+function setStoredLibrary(entries: LibraryEntry[]) {
+  localStorage.setItem('promptLibrary', JSON.stringify(entries.filter((e) => !e.builtin)));
+  localStorage.setItem('promptLibraryFavorites', JSON.stringify(
+    entries.filter((e) => e.builtin && e.favorite).map((e) => e.id)));
+}
+
+export {
+  BUILTIN_LIBRARY,
+  getStoredLibrary,
+  parseLibraryEntries,
+  PROMPT_TEXT_PRESETS,
+  SAVED_CATEGORY,
+  searchLibrary,
+  setStoredLibrary,
+};
+export type {LibraryEntry, LibraryFilter};
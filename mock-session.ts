@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  LiveMusicCallbacks,
+  LiveMusicConnectParameters,
+  LiveMusicGenerationConfig,
+  LiveMusicServerMessage,
+  LiveMusicSetConfigParameters,
+  LiveMusicSetWeightedPromptsParameters,
+  WeightedPrompt,
+} from '@google/genai';
+import type {MusicProviderSession} from './providers';
+import {encode} from './utils';
+
+interface MockSessionOptions {
+  /** Reject prompts the way the real service's filter would. */
+  simulateFiltering?: boolean;
+}
+
+const SAMPLE_RATE = 48000;
+const NUM_CHANNELS = 2;
+const CHUNK_SECONDS = 2;
+// The real model renders faster than real time, so keep a few seconds ahead.
+const LEAD_SECONDS = 4;
+const TICK_MS = 250;
+
+// Stand-ins for the kind of prompts the real service refuses.
+const MOCK_FILTERED_TERMS = ['taylor swift', 'beatles', 'drake'];
+
+const NOTE_OFFSETS: Record<string, number> = {
+  'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'F': 5,
+  'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11,
+};
+
+// I-vi-IV-V in major, i-VI-iii-VII in minor, as semitones from the root.
+const MAJOR_PROGRESSION = [0, 9, 5, 7];
+const MINOR_PROGRESSION = [0, 8, 3, 10];
+
+function midiToFrequency(note: number) {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/** Parses keys like 'F# Major' or 'A minor' into a root note and mode. */
+function parseMusicalKey(key: string | undefined) {
+  const [root = 'C', mode = 'Major'] = (key ?? 'C Major').split(' ');
+  return {
+    root: NOTE_OFFSETS[root] ?? 0,
+    minor: mode.toLowerCase() === 'minor',
+  };
+}
+
+/**
+ * An offline stand-in for `LiveMusicSession`. It streams 48 kHz stereo PCM
+ * synthesized from the current config, so the UI, FX chain and recorder can be
+ * exercised without an API key or network.
+ */
+class MockLiveMusicSession implements MusicProviderSession {
+  private prompts: WeightedPrompt[] = [];
+  private config: LiveMusicGenerationConfig = {};
+  private timer: number | null = null;
+  private streamStart = 0; // Wall clock time the current stream started.
+  private streamedSeconds = 0;
+  private frame = 0; // Synthesis clock, kept across pause.
+  private noiseSeed = 1;
+  private closed = false;
+
+  constructor(
+    private readonly callbacks: LiveMusicCallbacks,
+    private readonly options: MockSessionOptions = {},
+  ) {}
+
+  open() {
+    setTimeout(() => this.emit({setupComplete: {}}), 50);
+  }
+
+  async setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters) {
+    this.assertOpen();
+    const accepted: WeightedPrompt[] = [];
+    for (const prompt of params.weightedPrompts) {
+      const text = prompt.text?.toLowerCase() ?? '';
+      const term = this.options.simulateFiltering !== false &&
+        MOCK_FILTERED_TERMS.find((t) => text.includes(t));
+      if (term) {
+        this.emit({
+          filteredPrompt: {
+            text: prompt.text,
+            filteredReason: `Prompt references a named artist ("${term}").`,
+          },
+        });
+        continue;
+      }
+      accepted.push(prompt);
+    }
+    this.prompts = accepted;
+  }
+
+  async setMusicGenerationConfig(params: LiveMusicSetConfigParameters) {
+    this.assertOpen();
+    this.config = {...params.musicGenerationConfig};
+  }
+
+  play() {
+    if (this.closed || this.timer !== null) return;
+    this.streamStart = performance.now();
+    this.streamedSeconds = 0;
+    this.timer = window.setInterval(() => this.pump(), TICK_MS);
+    this.pump();
+  }
+
+  pause() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  stop() {
+    this.pause();
+    this.frame = 0;
+  }
+
+  resetContext() {
+    this.frame = 0;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.pause();
+    this.closed = true;
+    this.callbacks.onclose?.(new CloseEvent('close'));
+  }
+
+  private assertOpen() {
+    if (this.closed) throw new Error('Mock session is closed.');
+  }
+
+  private emit(message: Partial<LiveMusicServerMessage>) {
+    if (this.closed) return;
+    this.callbacks.onmessage(message as LiveMusicServerMessage);
+  }
+
+  private pump() {
+    const elapsed = (performance.now() - this.streamStart) / 1000;
+    while (this.streamedSeconds < elapsed + LEAD_SECONDS) {
+      const pcm = this.renderChunk();
+      this.streamedSeconds += CHUNK_SECONDS;
+      this.emit({
+        serverContent: {
+          audioChunks: [{data: encode(new Uint8Array(pcm.buffer)), mimeType: 'audio/l16'}],
+        },
+      });
+    }
+  }
+
+  /** How strongly the current prompts ask for something, by keyword. */
+  private promptAmount(words: string[]) {
+    let total = 0;
+    let matched = 0;
+    for (const p of this.prompts) {
+      const weight = Math.abs(p.weight ?? 0);
+      total += weight;
+      const text = p.text?.toLowerCase() ?? '';
+      if (words.some((w) => text.includes(w))) matched += weight;
+    }
+    return total > 0 ? matched / total : 0;
+  }
+
+  private nextNoise() {
+    this.noiseSeed = (this.noiseSeed * 1664525 + 1013904223) >>> 0;
+    return this.noiseSeed / 0xffffffff * 2 - 1;
+  }
+
+  /** Renders one chunk of interleaved 16-bit stereo PCM. */
+  private renderChunk(): Int16Array {
+    const frames = SAMPLE_RATE * CHUNK_SECONDS;
+    const out = new Int16Array(frames * NUM_CHANNELS);
+    // Silence until there is something to play, like the real model.
+    if (this.prompts.length === 0) {
+      this.frame += frames;
+      return out;
+    }
+
+    const config = this.config as LiveMusicGenerationConfig & {musicalKey?: string};
+    const bpm = config.bpm ?? 120;
+    const {root, minor} = parseMusicalKey(config.musicalKey);
+    const progression = minor ? MINOR_PROGRESSION : MAJOR_PROGRESSION;
+    const third = minor ? 3 : 4;
+    const temperature = config.temperature ?? 1;
+
+    const noDrums = this.promptAmount(['no drums', 'no percussion', 'no beat']) > 0;
+    const noBass = this.promptAmount(['no bass']) > 0;
+    const noMelody = this.promptAmount(['no melody', 'no lead']) > 0;
+    const drumLevel = noDrums ? 0 : 0.5 + this.promptAmount(['drum', 'kick', 'beat', 'techno']) * 0.5;
+    const bassLevel = noBass ? 0 : 0.35;
+    const padLevel = noMelody ? 0 : 0.12;
+
+    const samplesPerBeat = SAMPLE_RATE * 60 / bpm;
+    for (let i = 0; i < frames; i++) {
+      const t = this.frame + i;
+      const beat = t / samplesPerBeat;
+      const beatPhase = beat % 1;
+      const bar = Math.floor(beat / 4);
+      const chordRoot = 48 + root + progression[bar % progression.length];
+      const time = t / SAMPLE_RATE;
+
+      // Kick on every beat: a decaying pitch sweep.
+      const kickTime = beatPhase * samplesPerBeat / SAMPLE_RATE;
+      const kickFreq = 50 + 100 * Math.exp(-kickTime * 30);
+      const kick = Math.sin(2 * Math.PI * kickFreq * kickTime) * Math.exp(-kickTime * 8);
+
+      // Off-beat hat from noise, livelier with higher temperature.
+      const hatPhase = (beatPhase + 0.5) % 1;
+      const hat = this.nextNoise() * Math.exp(-hatPhase * samplesPerBeat / SAMPLE_RATE * 60) * 0.15 * temperature;
+
+      // Eighth-note bass on the chord root.
+      const eighthPhase = (beat * 2) % 1;
+      const bassEnv = Math.exp(-eighthPhase * 3);
+      const bass = Math.sin(2 * Math.PI * midiToFrequency(chordRoot - 12) * time) * bassEnv;
+
+      // Soft triad pad.
+      const pad =
+        Math.sin(2 * Math.PI * midiToFrequency(chordRoot + 12) * time) +
+        Math.sin(2 * Math.PI * midiToFrequency(chordRoot + 12 + third) * time) +
+        Math.sin(2 * Math.PI * midiToFrequency(chordRoot + 19) * time);
+
+      const drums = (kick * 0.8 + hat) * drumLevel;
+      const left = drums + bass * bassLevel + pad * padLevel * (1 + 0.2 * Math.sin(time * 0.5));
+      const right = drums + bass * bassLevel + pad * padLevel * (1 - 0.2 * Math.sin(time * 0.5));
+      out[i * 2] = Math.max(-32768, Math.min(32767, left * 0.5 * 32767));
+      out[i * 2 + 1] = Math.max(-32768, Math.min(32767, right * 0.5 * 32767));
+    }
+    this.frame += frames;
+    return out;
+  }
+}
+
+/** Drop-in replacement for `ai.live.music.connect` backed by the mock. */
+async function connectMockMusicSession(
+  params: LiveMusicConnectParameters,
+  options?: MockSessionOptions,
+): Promise<MusicProviderSession> {
+  const session = new MockLiveMusicSession(params.callbacks, options);
+  session.open();
+  return session;
+}
+
+export {connectMockMusicSession, MockLiveMusicSession};
+export type {MockSessionOptions};
@@ -0,0 +1,355 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A dropdown choice and the phrase it adds to the prompt ('' adds none). */
+interface ModifierOption {
+  value: string;
+  text: string;
+}
+
+interface ModifierSelect {
+  type: 'select';
+  key: string;
+  label: string;
+  default: string;
+  options: ModifierOption[];
+}
+
+/**
+ * A phrase added when a numeric control is below or above a threshold.
+ * Phrases are checked in order and the first match wins.
+ */
+interface ModifierPhrase {
+  below?: number;
+  above?: number;
+  text: string;
+}
+
+interface ModifierRange {
+  type: 'slider' | 'knob';
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  default: number;
+  phrases: ModifierPhrase[];
+}
+
+type ModifierControl = ModifierSelect | ModifierRange;
+
+/** A set of controls for a text prompt and the phrases they add to it. */
+interface ModifierPack {
+  id: string;
+  name: string;
+  controls: ModifierControl[];
+}
+
+type ModifierValues = Record<string, string | number>;
+
+const DEFAULT_MODIFIER_PACK_ID = 'default';
+
+/** The original Style/Character/FX/Density/Tone controls. */
+const DEFAULT_MODIFIER_PACK: ModifierPack = {
+  id: DEFAULT_MODIFIER_PACK_ID,
+  name: 'General',
+  controls: [
+    {
+      type: 'select', key: 'style', label: 'Style', default: 'Normal',
+      options: [
+        {value: 'Normal', text: ''},
+        {value: 'Staccato', text: 'staccato'},
+        {value: 'Legato', text: 'legato'},
+        {value: 'Pizzicato', text: 'pizzicato'},
+      ],
+    },
+    {
+      type: 'select', key: 'character', label: 'Character', default: 'Default',
+      options: [
+        {value: 'Default', text: ''},
+        {value: 'Muffled', text: 'muffled'},
+        {value: 'Bright', text: 'bright'},
+        {value: 'Gritty', text: 'gritty'},
+        {value: 'Atmospheric', text: 'atmospheric'},
+      ],
+    },
+    {
+      type: 'select', key: 'effect', label: 'FX', default: 'None',
+      options: [
+        {value: 'None', text: ''},
+        {value: 'Reverb', text: 'with reverb'},
+        {value: 'Echo', text: 'with echo'},
+        {value: 'Phaser', text: 'with phaser'},
+      ],
+    },
+    {
+      // Use a neutral point of 0.5 for density for clearer prompting
+      type: 'slider', key: 'density', label: 'Density', min: 0, max: 1, step: 0.01, default: 0.5,
+      phrases: [
+        {below: 0.3, text: 'sparse arrangement'},
+        {above: 0.7, text: 'dense, layered arrangement'},
+      ],
+    },
+    {
+      type: 'knob', key: 'tone', label: 'Tone', min: -1, max: 1, default: 0,
+      phrases: [
+        {below: -0.7, text: 'very dark and muffled tone'},
+        {below: -0.2, text: 'dark tone'},
+        {above: 0.7, text: 'very bright and shimmering tone'},
+        {above: 0.2, text: 'bright tone'},
+      ],
+    },
+  ],
+};
+
+const BUILTIN_MODIFIER_PACKS: ModifierPack[] = [
+  DEFAULT_MODIFIER_PACK,
+  {
+    id: 'drums',
+    name: 'Drums',
+    controls: [
+      {
+        type: 'select', key: 'kit', label: 'Kit', default: 'Any',
+        options: [
+          {value: 'Any', text: ''},
+          {value: '808', text: 'Roland TR-808 drum machine'},
+          {value: '909', text: 'TR-909 drum machine'},
+          {value: 'Acoustic', text: 'live acoustic drum kit'},
+          {value: 'Breaks', text: 'chopped breakbeats'},
+        ],
+      },
+      {
+        type: 'select', key: 'groove', label: 'Groove', default: 'Straight',
+        options: [
+          {value: 'Straight', text: ''},
+          {value: 'Swing', text: 'swung groove'},
+          {value: 'Shuffle', text: 'shuffle rhythm'},
+          {value: 'Half-time', text: 'half-time feel'},
+          {value: 'Double-time', text: 'double-time feel'},
+        ],
+      },
+      {
+        type: 'select', key: 'fills', label: 'Fills', default: 'None',
+        options: [
+          {value: 'None', text: ''},
+          {value: 'Sparse', text: 'occasional drum fills'},
+          {value: 'Busy', text: 'busy drum fills'},
+        ],
+      },
+      {
+        type: 'slider', key: 'busyness', label: 'Busy', min: 0, max: 1, step: 0.01, default: 0.5,
+        phrases: [
+          {below: 0.3, text: 'minimal percussion'},
+          {above: 0.7, text: 'busy, complex percussion'},
+        ],
+      },
+      {
+        type: 'knob', key: 'punch', label: 'Punch', min: -1, max: 1, default: 0,
+        phrases: [
+          {below: -0.5, text: 'soft, lo-fi drums'},
+          {above: 0.5, text: 'punchy, compressed drums'},
+        ],
+      },
+    ],
+  },
+  {
+    id: 'synth',
+    name: 'Synth',
+    controls: [
+      {
+        type: 'select', key: 'oscillator', label: 'Osc', default: 'Any',
+        options: [
+          {value: 'Any', text: ''},
+          {value: 'Saw', text: 'saw wave synth'},
+          {value: 'Square', text: 'square wave synth'},
+          {value: 'FM', text: 'FM synthesis'},
+          {value: 'Wavetable', text: 'wavetable synth'},
+        ],
+      },
+      {
+        type: 'select', key: 'envelope', label: 'Envelope', default: 'Any',
+        options: [
+          {value: 'Any', text: ''},
+          {value: 'Pluck', text: 'plucky envelope'},
+          {value: 'Pad', text: 'slow attack pads'},
+          {value: 'Stab', text: 'short stabs'},
+        ],
+      },
+      {
+        type: 'select', key: 'movement', label: 'Motion', default: 'None',
+        options: [
+          {value: 'None', text: ''},
+          {value: 'Arpeggio', text: 'arpeggiated'},
+          {value: 'Sweep', text: 'slow filter sweeps'},
+          {value: 'Wobble', text: 'wobbling LFO'},
+        ],
+      },
+      {
+        type: 'slider', key: 'detune', label: 'Detune', min: 0, max: 1, step: 0.01, default: 0.5,
+        phrases: [
+          {below: 0.2, text: 'clean mono synth'},
+          {above: 0.7, text: 'detuned, wide unison'},
+        ],
+      },
+      {
+        type: 'knob', key: 'cutoff', label: 'Cutoff', min: -1, max: 1, default: 0,
+        phrases: [
+          {below: -0.5, text: 'dark, low-pass filtered'},
+          {above: 0.5, text: 'bright, open filter'},
+        ],
+      },
+    ],
+  },
+  {
+    id: 'orchestral',
+    name: 'Orchestral',
+    controls: [
+      {
+        type: 'select', key: 'section', label: 'Section', default: 'Full',
+        options: [
+          {value: 'Full', text: ''},
+          {value: 'Strings', text: 'string section'},
+          {value: 'Brass', text: 'brass section'},
+          {value: 'Woodwinds', text: 'woodwind section'},
+          {value: 'Choir', text: 'choir'},
+        ],
+      },
+      {
+        type: 'select', key: 'articulation', label: 'Artic.', default: 'Normal',
+        options: [
+          {value: 'Normal', text: ''},
+          {value: 'Legato', text: 'legato'},
+          {value: 'Staccato', text: 'staccato'},
+          {value: 'Pizzicato', text: 'pizzicato'},
+          {value: 'Tremolo', text: 'tremolo'},
+        ],
+      },
+      {
+        type: 'slider', key: 'dynamics', label: 'Dynamics', min: 0, max: 1, step: 0.01, default: 0.5,
+        phrases: [
+          {below: 0.3, text: 'soft, pianissimo dynamics'},
+          {above: 0.7, text: 'powerful, fortissimo dynamics'},
+        ],
+      },
+      {
+        type: 'knob', key: 'size', label: 'Size', min: -1, max: 1, default: 0,
+        phrases: [
+          {below: -0.5, text: 'intimate chamber ensemble'},
+          {above: 0.5, text: 'epic cinematic orchestra'},
+        ],
+      },
+    ],
+  },
+];
+
+function defaultModifierValues(pack: ModifierPack): ModifierValues {
+  return Object.fromEntries(pack.controls.map((c) => [c.key, c.default]));
+}
+
+/** Keeps the values that still fit the pack; the rest get its defaults. */
+function adaptModifierValues(pack: ModifierPack, values: ModifierValues): ModifierValues {
+  const adapted: ModifierValues = {};
+  for (const control of pack.controls) {
+    const value = values[control.key];
+    const fits = control.type === 'select'
+      ? control.options.some((o) => o.value === value)
+      : typeof value === 'number';
+    adapted[control.key] = fits ? value : control.default;
+  }
+  return adapted;
+}
+
+/** The phrases a pack's controls add to a prompt, joined with commas. */
+function getModifierText(pack: ModifierPack, values: ModifierValues): string {
+  const parts: string[] = [];
+  for (const control of pack.controls) {
+    const value = values[control.key] ?? control.default;
+    if (control.type === 'select') {
+      const text = control.options.find((o) => o.value === value)?.text;
+      if (text) parts.push(text);
+      continue;
+    }
+    const n = Number(value);
+    const phrase = control.phrases.find((p) =>
+      (p.below === undefined || n < p.below) && (p.above === undefined || n > p.above));
+    if (phrase?.text) parts.push(phrase.text);
+  }
+  return parts.join(', ');
+}
+
+/** Checks a pack loaded from JSON, throwing an Error that says what is wrong. */
+function parseModifierPack(json: unknown): ModifierPack {
+  const pack = json as ModifierPack;
+  if (!pack || typeof pack !== 'object') throw new Error('A modifier pack must be a JSON object.');
+  if (typeof pack.id !== 'string' || !pack.id) throw new Error('The pack needs an "id".');
+  if (typeof pack.name !== 'string' || !pack.name) throw new Error('The pack needs a "name".');
+  if (!Array.isArray(pack.controls) || pack.controls.length === 0) {
+    throw new Error('The pack needs a non-empty "controls" list.');
+  }
+  const keys = new Set<string>();
+  for (const control of pack.controls) {
+    const where = `Control "${control?.key ?? '?'}"`;
+    if (typeof control?.key !== 'string' || !control.key) throw new Error('Every control needs a "key".');
+    if (keys.has(control.key)) throw new Error(`${where} appears twice.`);
+    keys.add(control.key);
+    if (typeof control.label !== 'string') throw new Error(`${where} needs a "label".`);
+    if (control.type === 'select') {
+      if (!Array.isArray(control.options) || control.options.length === 0) {
+        throw new Error(`${where} needs "options".`);
+      }
+      if (control.options.some((o) => typeof o?.value !== 'string' || typeof o.text !== 'string')) {
+        throw new Error(`${where} has an option without a string "value" and "text".`);
+      }
+      if (!control.options.some((o) => o.value === control.default)) {
+        throw new Error(`${where} has a "default" that is not one of its options.`);
+      }
+    } else if (control.type === 'slider' || control.type === 'knob') {
+      if ([control.min, control.max, control.default].some((n) => typeof n !== 'number')) {
+        throw new Error(`${where} needs numeric "min", "max" and "default".`);
+      }
+      if (!Array.isArray(control.phrases) || control.phrases.some((p) => typeof p?.text !== 'string')) {
+        throw new Error(`${where} needs a "phrases" list with a "text" for each.`);
+      }
+    } else {
+      throw new Error(`${where} has unknown type "${(control as {type?: unknown}).type}".`);
+    }
+  }
+  return pack;
+}
+
+function getStoredModifierPacks(): ModifierPack[] {
+  try {
+    const packs = JSON.parse(localStorage.getItem('modifierPacks') ?? '[]') as unknown[];
+    return packs.map(parseModifierPack);
+  } catch (e) {
+    console.error('Failed to parse stored modifier packs', e);
+    return [];
+  }
+}
+
+function setStoredModifierPacks(packs: ModifierPack[]) {
+  localStorage.setItem('modifierPacks', JSON.stringify(packs));
+}
+
+export {
+  adaptModifierValues,
+  BUILTIN_MODIFIER_PACKS,
+  DEFAULT_MODIFIER_PACK,
+  DEFAULT_MODIFIER_PACK_ID,
+  defaultModifierValues,
+  getModifierText,
+  getStoredModifierPacks,
+  parseModifierPack,
+  setStoredModifierPacks,
+};
+export type {
+  ModifierControl,
+  ModifierOption,
+  ModifierPack,
+  ModifierPhrase,
+  ModifierRange,
+  ModifierSelect,
+  ModifierValues,
+};
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A corner of the XY pad, in screen orientation. */
+type MorphCorner = 'tl' | 'tr' | 'bl' | 'br';
+
+const MORPH_CORNERS: {id: MorphCorner; label: string}[] = [
+  {id: 'tl', label: 'Top left'},
+  {id: 'tr', label: 'Top right'},
+  {id: 'bl', label: 'Bottom left'},
+  {id: 'br', label: 'Bottom right'},
+];
+
+/** Bilinear weights of the four corners at `x`, `y` (0-1, y down); they sum to 1. */
+function morphWeights(x: number, y: number): Record<MorphCorner, number> {
+  return {
+    tl: (1 - x) * (1 - y),
+    tr: x * (1 - y),
+    bl: (1 - x) * y,
+    br: x * y,
+  };
+}
+
+/** Moves `current` toward `target` as a one-pole filter with time constant `smoothing` ms. */
+function smoothTowards(current: number, target: number, elapsed: number, smoothing: number) {
+  if (smoothing <= 0) return target;
+  return target + (current - target) * Math.exp(-elapsed / smoothing);
+}
+
+export {MORPH_CORNERS, morphWeights, smoothTowards};
+export type {MorphCorner};
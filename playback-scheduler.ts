@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+interface PlaybackSchedulerOptions {
+  /** Smallest buffer the scheduler will shrink to, in seconds. */
+  minBufferTime?: number;
+  /** Largest buffer the scheduler will grow to, in seconds. */
+  maxBufferTime?: number;
+  /** Buffer used before any jitter has been measured, in seconds. */
+  initialBufferTime?: number;
+  /** Fade-in applied where the stream restarts after running dry, in seconds. */
+  fadeInTime?: number;
+}
+
+interface ScheduleResult {
+  /** True for the first chunk after a reset, which primes the buffer. */
+  primed: boolean;
+  /** True if the chunk arrived after the buffer had run dry. */
+  late: boolean;
+  /** Seconds of silence between the previous chunk and this late one. */
+  gap: number;
+  /** Audio clock time the chunk starts playing at. */
+  startTime: number;
+  /** Seconds from now until the chunk starts playing. */
+  startDelay: number;
+}
+
+/**
+ * Schedules streamed audio chunks back to back on an AudioContext.
+ *
+ * The buffer ahead of the playhead adapts to how irregularly chunks arrive:
+ * late arrivals grow it, a steady stream lets it shrink back. A chunk that
+ * arrives after the buffer ran dry primes it again at the grown target and
+ * fades in, instead of being dropped.
+ */
+class PlaybackScheduler {
+  private readonly minBufferTime: number;
+  private readonly maxBufferTime: number;
+  private readonly fadeInTime: number;
+
+  private nextTime = 0;
+  private lastArrival = 0;
+  private lastDuration = 0;
+  private jitter = 0; // Smoothed lateness of chunk arrivals, in seconds.
+  private target: number;
+  private sources = new Set<AudioBufferSourceNode>();
+
+  underruns = 0;
+
+  constructor(
+    private readonly context: AudioContext,
+    private destination: AudioNode,
+    options: PlaybackSchedulerOptions = {},
+  ) {
+    this.minBufferTime = options.minBufferTime ?? 0.5;
+    this.maxBufferTime = options.maxBufferTime ?? 6;
+    this.fadeInTime = options.fadeInTime ?? 0.05;
+    this.target = options.initialBufferTime ?? 2;
+  }
+
+  /** Audio clock time at which the next chunk will start, or 0 if idle. */
+  get nextStartTime() {
+    return this.nextTime;
+  }
+
+  /** Seconds of audio scheduled ahead of the playhead. */
+  get bufferDepth() {
+    return Math.max(0, this.nextTime - this.context.currentTime);
+  }
+
+  /** The buffer depth the scheduler currently aims for, in seconds. */
+  get targetBufferTime() {
+    return this.target;
+  }
+
+  get jitterTime() {
+    return this.jitter;
+  }
+
+  setDestination(node: AudioNode) {
+    this.destination = node;
+  }
+
+  schedule(buffer: AudioBuffer): ScheduleResult {
+    const now = this.context.currentTime;
+    this.measureArrival(now);
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    const gain = this.context.createGain();
+    source.connect(gain);
+    gain.connect(this.destination);
+
+    const primed = this.nextTime === 0;
+    const late = !primed && this.nextTime < now;
+    let startTime = this.nextTime;
+    let gap = 0;
+    if (primed) {
+      startTime = now + this.target;
+    } else if (late) {
+      this.underruns++;
+      // Grow the buffer by at least the gap we just fell into.
+      this.jitter = Math.max(this.jitter, now - this.nextTime);
+      this.updateTarget();
+      startTime = now + this.target;
+      gap = startTime - this.nextTime;
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(1, startTime + this.fadeInTime);
+    }
+
+    source.start(startTime);
+    this.sources.add(source);
+    source.onended = () => {
+      this.sources.delete(source);
+      gain.disconnect();
+    };
+    this.nextTime = startTime + buffer.duration;
+    this.lastDuration = buffer.duration;
+    return {primed, late, gap, startTime, startDelay: startTime - now};
+  }
+
+  /**
+   * Forgets the stream position so the next chunk primes a fresh buffer.
+   * With `stopAt`, anything already scheduled is silenced at that time.
+   */
+  reset(stopAt?: number) {
+    if (stopAt !== undefined) {
+      for (const source of this.sources) {
+        try {
+          source.stop(stopAt);
+        } catch (e) {
+          // Only a source that was never started throws here, and it is dropped anyway.
+          if (!(e instanceof DOMException && e.name === 'InvalidStateError')) throw e;
+        }
+      }
+      this.sources.clear();
+    }
+    this.nextTime = 0;
+    this.lastArrival = 0;
+  }
+
+  private measureArrival(now: number) {
+    if (this.lastArrival > 0) {
+      // The model renders ahead of real time, so early chunks are harmless.
+      // Only lateness relative to the previous chunk's length counts.
+      const lateness = now - this.lastArrival - this.lastDuration;
+      if (lateness > 0) {
+        this.jitter += (lateness - this.jitter) / 4;
+      } else {
+        this.jitter += (0 - this.jitter) / 32;
+      }
+      this.updateTarget();
+    }
+    this.lastArrival = now;
+  }
+
+  private updateTarget() {
+    this.target = Math.max(
+      this.minBufferTime,
+      Math.min(this.maxBufferTime, this.minBufferTime + this.jitter * 3),
+    );
+  }
+}
+
+export {PlaybackScheduler};
+export type {PlaybackSchedulerOptions, ScheduleResult};
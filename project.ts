@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {CROSSFADE_CURVES, type CrossfadeCurve, type DeckConfig, type DeckId} from './deck';
+import type {PromptGroup} from './groups';
+import {upgradePrompts} from './prompt-schema';
+import {MASTER_FX_KEYS, SCENE_SLOTS, type MasterFx, type Scene} from './scenes';
+
+const PROJECT_FORMAT = 'prompt-dj-project';
+/** Bumped whenever the file layout changes. */
+const PROJECT_VERSION = 1;
+
+/**
+ * A prompt as it is saved, with audio data as base64 and waveforms as plain
+ * arrays. The app fills in any other field it is missing.
+ */
+interface ProjectPrompt {
+  promptId: string;
+  type: string;
+}
+
+interface ProjectDeck {
+  id: DeckId;
+  config: DeckConfig;
+  prompts: ProjectPrompt[];
+  groups: PromptGroup[];
+}
+
+/** Where things sit in the app, beyond the card positions kept on the prompts. */
+interface ProjectLayout {
+  editDeckId: DeckId;
+  crossfade: number;
+  crossfadeCurve: CrossfadeCurve;
+}
+
+/** Everything needed to open a set on another machine. */
+interface Project {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string; // ISO date
+  decks: ProjectDeck[];
+  fx: MasterFx;
+  kaossProgram: string;
+  scenes: (Scene<ProjectPrompt> | null)[];
+  layout: ProjectLayout;
+}
+
+const DECK_IDS: DeckId[] = ['A', 'B'];
+const PROMPT_TYPES = ['text', 'audio', 'negative'];
+const CONFIG_KEYS: (keyof DeckConfig)[] = ['bpm', 'temperature', 'topK', 'guidanceScale'];
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function parsePrompt(value: unknown, where: string): ProjectPrompt {
+  if (!isObject(value)) throw new Error(`${where} is not a prompt.`);
+  if (typeof value.promptId !== 'string' || !value.promptId) throw new Error(`${where} needs a "promptId".`);
+  if (!PROMPT_TYPES.includes(value.type as string)) throw new Error(`${where} has an unknown type "${value.type}".`);
+  for (const key of ['weight', 'x', 'y']) {
+    if (!isNumber(value[key])) throw new Error(`${where} needs a numeric "${key}".`);
+  }
+  if (typeof value.text !== 'string' && value.type !== 'audio') throw new Error(`${where} needs a "text".`);
+  if (value.type === 'audio') {
+    if (typeof value.data !== 'string' || !value.data || !BASE64.test(value.data)) {
+      throw new Error(`${where} needs its audio as base64 "data".`);
+    }
+    if (!Array.isArray(value.waveformData) || !value.waveformData.every(isNumber)) {
+      throw new Error(`${where} needs a "waveformData" list of numbers.`);
+    }
+  }
+  return value as unknown as ProjectPrompt;
+}
+
+function parsePrompts(value: unknown, where: string): ProjectPrompt[] {
+  if (!Array.isArray(value)) throw new Error(`${where} needs a "prompts" list.`);
+  const prompts = value.map((p, i) => parsePrompt(p, `${where}, prompt ${i + 1}`));
+  const ids = new Set(prompts.map((p) => p.promptId));
+  if (ids.size !== prompts.length) throw new Error(`${where} has two prompts with the same "promptId".`);
+  // A card the app would have to skip fails the whole file, so nothing is dropped unseen.
+  const [broken] = upgradePrompts(value, 0).quarantined;
+  if (broken) throw new Error(`${where}, prompt ${value.indexOf(broken.record) + 1} cannot be loaded: ${broken.reason}.`);
+  return prompts;
+}
+
+function parseConfig(value: unknown, where: string): DeckConfig {
+  if (!isObject(value)) throw new Error(`${where} needs a "config".`);
+  for (const key of CONFIG_KEYS) {
+    if (!isNumber(value[key])) throw new Error(`${where} needs a numeric "config.${key}".`);
+  }
+  if (typeof value.musicalKey !== 'string') throw new Error(`${where} needs a "config.musicalKey".`);
+  return value as unknown as DeckConfig;
+}
+
+function parseGroups(value: unknown, where: string): PromptGroup[] {
+  if (!Array.isArray(value)) throw new Error(`${where} needs a "groups" list.`);
+  return value.map((g, i) => {
+    if (!isObject(g) || typeof g.id !== 'string' || typeof g.name !== 'string' || !isNumber(g.macro)) {
+      throw new Error(`${where}, group ${i + 1} needs an "id", a "name" and a numeric "macro".`);
+    }
+    return {id: g.id, name: g.name, color: String(g.color ?? '#9900ff'), macro: g.macro, muted: g.muted === true};
+  });
+}
+
+function parseFx(value: unknown, where: string): MasterFx {
+  if (!isObject(value)) throw new Error(`${where} needs an "fx" object.`);
+  for (const key of MASTER_FX_KEYS) {
+    const ok = key.startsWith('is') ? typeof value[key] === 'boolean' : isNumber(value[key]);
+    if (!ok) throw new Error(`${where} is missing the FX setting "${key}".`);
+  }
+  return value as unknown as MasterFx;
+}
+
+function parseScene(value: unknown, slot: number): Scene<ProjectPrompt> | null {
+  if (value === null) return null;
+  const where = `Scene ${slot + 1}`;
+  if (!isObject(value)) throw new Error(`${where} is not a scene.`);
+  return {
+    name: typeof value.name === 'string' ? value.name : where,
+    savedAt: typeof value.savedAt === 'string' ? value.savedAt : new Date().toISOString(),
+    config: parseConfig(value.config, where),
+    prompts: parsePrompts(value.prompts, where),
+    groups: parseGroups(value.groups ?? [], where),
+    fx: parseFx(value.fx, where),
+    kaossProgram: String(value.kaossProgram ?? ''),
+  };
+}
+
+/**
+ * Checks a project loaded from JSON, throwing an Error that says what is
+ * wrong. Prompts are checked as the app would load them, after filling in
+ * what older versions left out.
+ */
+function parseProject(json: unknown): Project {
+  if (!isObject(json) || json.format !== PROJECT_FORMAT) throw new Error('This is not a Prompt DJ project file.');
+  if (!Number.isInteger(json.version) || (json.version as number) < 1) throw new Error('The project file has no valid "version".');
+  if ((json.version as number) > PROJECT_VERSION) {
+    throw new Error(`The project was saved by a newer version of the app (file version ${json.version}).`);
+  }
+  if (!Array.isArray(json.decks) || json.decks.length === 0) throw new Error('The project has no decks.');
+  const decks = json.decks.map((d: unknown, i): ProjectDeck => {
+    const deck = d as Record<string, unknown>;
+    if (!isObject(d) || !DECK_IDS.includes(deck.id as DeckId)) throw new Error(`Deck ${i + 1} needs an "id" of A or B.`);
+    const where = `Deck ${deck.id}`;
+    return {
+      id: deck.id as DeckId,
+      config: parseConfig(deck.config, where),
+      prompts: parsePrompts(deck.prompts, where),
+      groups: parseGroups(deck.groups ?? [], where),
+    };
+  });
+  if (new Set(decks.map((d) => d.id)).size !== decks.length) throw new Error('The project has the same deck twice.');
+  const scenes = Array.isArray(json.scenes) ? json.scenes.slice(0, SCENE_SLOTS) : [];
+  const layout = isObject(json.layout) ? json.layout : {};
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: typeof json.savedAt === 'string' ? json.savedAt : new Date().toISOString(),
+    decks,
+    fx: parseFx(json.fx, 'The project'),
+    kaossProgram: String(json.kaossProgram ?? ''),
+    scenes: Array.from({length: SCENE_SLOTS}, (_, slot) => parseScene(scenes[slot] ?? null, slot)),
+    layout: {
+      editDeckId: DECK_IDS.includes(layout.editDeckId as DeckId) ? layout.editDeckId as DeckId : 'A',
+      crossfade: isNumber(layout.crossfade) ? Math.max(0, Math.min(1, layout.crossfade)) : 0,
+      crossfadeCurve: CROSSFADE_CURVES.some((c) => c.id === layout.crossfadeCurve)
+        ? layout.crossfadeCurve as CrossfadeCurve
+        : 'power',
+    },
+  };
+}
+
+export {parseProject, PROJECT_FORMAT, PROJECT_VERSION};
+export type {Project, ProjectDeck, ProjectLayout, ProjectPrompt};
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {describe, expect, it} from 'vitest';
+import {DEFAULT_MODIFIER_PACK, DEFAULT_MODIFIER_PACK_ID, defaultModifierValues} from './modifiers';
+import {PROMPT_SCHEMA_VERSION, upgradePrompts} from './prompt-schema';
+
+const card = {color: '#9900ff', weight: 1, x: 10, y: 20};
+
+describe('upgradePrompts', () => {
+  it('gives text prompts from before modifiers every later field', () => {
+    const record = {...card, promptId: 'prompt-0', type: 'text', text: 'Warm techno kick'};
+    const {prompts, quarantined} = upgradePrompts([record], 0);
+    expect(quarantined).toEqual([]);
+    expect(prompts).toEqual([{
+      ...record,
+      modifierPack: DEFAULT_MODIFIER_PACK_ID,
+      modifiers: defaultModifierValues(DEFAULT_MODIFIER_PACK),
+      muted: false,
+      solo: false,
+      tags: ['drums'],
+      tagsEdited: false,
+      groupId: null,
+      lfo: null,
+    }]);
+  });
+
+  it('keeps modifier values a text prompt already had', () => {
+    const record = {...card, promptId: 'prompt-0', type: 'text', text: 'Pads', modifierPack: 'synth', modifiers: {cutoff: 0.3}};
+    const {prompts} = upgradePrompts([record], 0);
+    expect(prompts[0].modifierPack).toBe('synth');
+    expect(prompts[0].modifiers).toEqual({cutoff: 0.3});
+  });
+
+  it('drops modifiers from audio prompts and fills in their direction', () => {
+    const record = {
+      ...card,
+      promptId: 'prompt-1',
+      type: 'audio',
+      name: 'loop.wav',
+      data: 'AAAA',
+      waveformData: [0, 0.5],
+      modifiers: {energy: 0.8},
+    };
+    const {prompts, quarantined} = upgradePrompts([record], 0);
+    expect(quarantined).toEqual([]);
+    expect(prompts[0]).not.toHaveProperty('modifiers');
+    expect(prompts[0]).toMatchObject({text: 'Direct Reference...', variation: 0.1, muted: false, solo: false});
+  });
+
+  it('suggests tags for records from before tags, unless they have some', () => {
+    const base = {...card, muted: false, solo: false};
+    const {prompts} = upgradePrompts([
+      {...base, promptId: 'a', type: 'text', text: 'Deep bass', modifierPack: DEFAULT_MODIFIER_PACK_ID, modifiers: {}},
+      {...base, promptId: 'b', type: 'text', text: 'Deep bass', modifierPack: DEFAULT_MODIFIER_PACK_ID, modifiers: {}, tags: ['fx'], tagsEdited: true},
+      {...base, promptId: 'c', type: 'negative', text: 'no drums'},
+    ], 2);
+    expect(prompts.map((p) => [p.tags, p.tagsEdited])).toEqual([
+      [['bass'], false],
+      [['fx'], true],
+      [[], false],
+    ]);
+  });
+
+  it('puts records from before groups in no group, keeping any group they name', () => {
+    const base = {...card, type: 'negative', text: 'no vocals', muted: false, solo: false, tags: [], tagsEdited: false};
+    const {prompts} = upgradePrompts([{...base, promptId: 'a'}, {...base, promptId: 'b', groupId: 'group-1'}], 3);
+    expect(prompts.map((p) => [p.groupId, p.lfo])).toEqual([[null, null], ['group-1', null]]);
+  });
+
+  it('leaves current records as they are', () => {
+    const record = {
+      ...card,
+      promptId: 'prompt-0',
+      type: 'negative',
+      text: 'no vocals',
+      muted: true,
+      solo: false,
+      tags: [],
+      tagsEdited: false,
+      groupId: null,
+      lfo: {shape: 'sine', rate: 4, depth: 0.5, phase: 0},
+    };
+    const {prompts, quarantined} = upgradePrompts([record], PROMPT_SCHEMA_VERSION);
+    expect(quarantined).toEqual([]);
+    expect(prompts).toEqual([record]);
+    expect(prompts[0]).not.toBe(record);
+  });
+
+  it('quarantines corrupt records as they were stored, with the reason', () => {
+    const good = {...card, promptId: 'prompt-0', type: 'negative', text: 'no bass'};
+    const records = [
+      null,
+      'prompt-1',
+      [good],
+      {...good, promptId: ''},
+      {...good, promptId: 'prompt-2', type: 'video'},
+      {...good, promptId: 'prompt-3', color: undefined},
+      {...good, promptId: 'prompt-4', weight: '1'},
+      {...good, promptId: 'prompt-5', text: undefined},
+      {...good, promptId: 'prompt-6', lfo: {shape: 'saw'}},
+      {...card, promptId: 'prompt-7', type: 'audio', name: 'loop.wav', waveformData: []},
+      {...card, promptId: 'prompt-8', type: 'text', text: 42},
+      good,
+      {...good, text: 'no drums'},
+    ];
+    const {prompts, quarantined} = upgradePrompts(records, 0);
+    expect(prompts.map((p) => p.promptId)).toEqual(['prompt-0']);
+    expect(quarantined.map((q) => q.reason)).toEqual([
+      'not a prompt',
+      'not a prompt',
+      'not a prompt',
+      'no prompt id',
+      'unknown type "video"',
+      'no color',
+      '"weight" is not a number',
+      'no text',
+      'bad LFO',
+      'no audio data',
+      expect.stringMatching(/^migration failed: /),
+      'duplicate prompt id "prompt-0"',
+    ]);
+    // The untouched records, so nothing the migrations did is lost.
+    expect(quarantined.map((q) => q.record)).toEqual(records.filter((r) => r !== good));
+    expect(quarantined[quarantined.length - 1].record).toBe(records[records.length - 1]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {LFO_SHAPES} from './lfo';
+import {DEFAULT_MODIFIER_PACK, DEFAULT_MODIFIER_PACK_ID, defaultModifierValues} from './modifiers';
+import {suggestTags} from './tags';
+
+// Use `any` so migrations can reach fields older versions had or lacked.
+type PromptRecord = Record<string, any>;
+
+/** One step in the stored prompt shape. `migrate` takes a record from `version - 1` to `version`. */
+interface Migration {
+  version: number;
+  description: string;
+  migrate(prompt: PromptRecord): void;
+}
+
+/** A stored prompt that could not be loaded, kept aside with the reason. */
+interface QuarantinedPrompt {
+  record: unknown;
+  reason: string;
+}
+
+/**
+ * The stored prompt migrations, oldest first. Data saved before the schema
+ * was versioned counts as version 0. Steps only fill in what is missing, so
+ * running one on data that already has the change is harmless.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Modifier packs on text prompts; direction text and variation on audio prompts',
+    migrate(p) {
+      if (p.type === 'text') {
+        p.modifierPack = p.modifierPack || DEFAULT_MODIFIER_PACK_ID;
+        if (p.modifierPack === DEFAULT_MODIFIER_PACK_ID) {
+          p.modifiers = {...defaultModifierValues(DEFAULT_MODIFIER_PACK), ...(p.modifiers || {})};
+        }
+        p.modifiers = p.modifiers || {};
+      } else if (p.type === 'audio') {
+        // Audio prompts no longer use modifiers.
+        delete p.modifiers;
+        p.text = p.text || 'Direct Reference...';
+        p.variation = p.variation ?? 0.1;
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Mute and solo',
+    migrate(p) {
+      p.muted = p.muted ?? false;
+      p.solo = p.solo ?? false;
+    },
+  },
+  {
+    version: 3,
+    description: 'Instrument tags, suggested from the text',
+    migrate(p) {
+      if (!p.tags) {
+        if (p.type === 'negative') p.tags = [];
+        else p.tags = suggestTags(p.type === 'text' ? p.text ?? '' : `${p.name ?? ''} ${p.text ?? ''}`);
+      }
+      p.tagsEdited = p.tagsEdited ?? false;
+    },
+  },
+  {
+    version: 4,
+    description: 'Prompt groups',
+    migrate(p) {
+      p.groupId = p.groupId ?? null;
+    },
+  },
+  {
+    version: 5,
+    description: 'LFOs on the weight',
+    migrate(p) {
+      p.lfo = p.lfo ?? null;
+    },
+  },
+];
+
+const PROMPT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+/** Why a prompt in the current shape cannot be used, or null if it can. */
+function validatePrompt(p: PromptRecord): string | null {
+  if (typeof p.promptId !== 'string' || !p.promptId) return 'no prompt id';
+  if (!['text', 'audio', 'negative'].includes(p.type)) return `unknown type "${p.type}"`;
+  if (typeof p.color !== 'string') return 'no color';
+  for (const key of ['weight', 'x', 'y']) {
+    if (!isNumber(p[key])) return `"${key}" is not a number`;
+  }
+  if (typeof p.text !== 'string') return 'no text';
+  if (typeof p.muted !== 'boolean' || typeof p.solo !== 'boolean') return 'mute or solo is not on or off';
+  if (!Array.isArray(p.tags)) return 'tags are not a list';
+  if (p.groupId !== null && typeof p.groupId !== 'string') return 'bad group id';
+  if (p.lfo !== null && !LFO_SHAPES.some((s) => s.id === p.lfo?.shape)) return 'bad LFO';
+  if (p.type === 'text' && (typeof p.modifierPack !== 'string' || typeof p.modifiers !== 'object')) {
+    return 'bad modifiers';
+  }
+  if (p.type === 'audio') {
+    if (typeof p.data !== 'string' || !p.data) return 'no audio data';
+    if (!Array.isArray(p.waveformData) && !(p.waveformData instanceof Float32Array)) return 'no waveform';
+  }
+  return null;
+}
+
+/**
+ * Runs the migrations after `version` on each record and checks the result.
+ * Records that are broken, or repeat an id, are returned in `quarantined` as
+ * they were stored instead of being loaded.
+ */
+function upgradePrompts(records: unknown[], version: number) {
+  const prompts: PromptRecord[] = [];
+  const quarantined: QuarantinedPrompt[] = [];
+  const ids = new Set<string>();
+  const steps = MIGRATIONS.filter((m) => m.version > version);
+  for (const record of records) {
+    if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+      quarantined.push({record, reason: 'not a prompt'});
+      continue;
+    }
+    const prompt: PromptRecord = {...record};
+    let reason: string | null = null;
+    try {
+      for (const step of steps) step.migrate(prompt);
+      reason = validatePrompt(prompt);
+    } catch (e) {
+      reason = `migration failed: ${(e as Error)?.message ?? e}`;
+    }
+    if (!reason && ids.has(prompt.promptId)) reason = `duplicate prompt id "${prompt.promptId}"`;
+    if (reason) {
+      quarantined.push({record, reason});
+      continue;
+    }
+    ids.add(prompt.promptId);
+    prompts.push(prompt);
+  }
+  return {prompts, quarantined};
+}
+
+export {MIGRATIONS, PROMPT_SCHEMA_VERSION, upgradePrompts, validatePrompt};
+export type {Migration, PromptRecord, QuarantinedPrompt};
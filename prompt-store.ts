@@ -0,0 +1,299 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {QuarantinedPrompt} from './prompt-schema';
+import {decode, encode} from './utils';
+
+const DB_NAME = 'prompt-dj';
+const DB_VERSION = 2;
+
+/** A prompt as the app keeps it; audio prompts carry base64 `data` and a waveform. */
+interface StoredPrompt {
+  promptId: string;
+  type: string;
+  data?: string;
+  waveformData?: Float32Array | number[];
+}
+
+/** The card order of one set of prompts; its presence means the set was saved. */
+interface DeckRecord {
+  key: string;
+  order: string[];
+  /** Schema version of the prompts; missing on sets saved before there was one. */
+  version?: number;
+}
+
+/** Saved prompts with the schema version they were written in. */
+interface LoadedPrompts {
+  prompts: unknown[];
+  version: number;
+}
+
+interface PromptRecord {
+  key: string;
+  promptId: string;
+  /** The prompt without its audio. */
+  prompt: Record<string, unknown>;
+}
+
+interface AudioRecord {
+  key: string;
+  promptId: string;
+  data: Blob;
+  waveformData: Float32Array;
+}
+
+/** What was last written for a prompt, to tell which records a save has to touch. */
+interface Written {
+  json: string;
+  data?: string;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException('The write was aborted.', 'AbortError'));
+  });
+}
+
+/** The range of compound `[key, promptId]` keys that belong to one set of prompts. */
+function keyRange(key: string) {
+  return IDBKeyRange.bound([key, ''], [key, '\uffff']);
+}
+
+function splitAudio(prompt: StoredPrompt) {
+  const {data, waveformData, ...rest} = prompt;
+  return {prompt: rest as Record<string, unknown>, data, waveformData};
+}
+
+/**
+ * Saves prompts to IndexedDB, one record per prompt with audio kept apart as
+ * blobs. Saves only write the records that changed since the last one, and
+ * saves made while a write is running are folded into the next write.
+ * Prompts that older versions kept in localStorage move over with the first save.
+ */
+class PromptStore {
+  private db: IDBDatabase | null = null;
+  private onError: ((message: string) => void) | null = null;
+  private unreported: string[] = [];
+  private written = new Map<string, Map<string, Written>>();
+  private pending = new Map<string, StoredPrompt[]>();
+  private writing: Promise<void> = Promise.resolve();
+  private unavailableReported = false;
+  /** Keys whose prompts failed to load; saving under them would overwrite what is there. */
+  private unreadable = new Set<string>();
+
+  /** @param schemaVersion Recorded with every save, for `load` to report back. */
+  constructor(private readonly schemaVersion: number) {}
+
+  /** Sets where messages for the user go, passing on any that came before. */
+  setErrorHandler(handler: (message: string) => void) {
+    this.onError = handler;
+    for (const message of this.unreported.splice(0)) handler(message);
+  }
+
+  private report(message: string) {
+    if (this.onError) this.onError(message);
+    else this.unreported.push(message);
+  }
+
+  async open() {
+    if (!window.indexedDB) {
+      console.error('IndexedDB is not available; prompts will not be saved.');
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      if (e.oldVersion < 1) {
+        db.createObjectStore('decks', {keyPath: 'key'});
+        db.createObjectStore('prompts', {keyPath: ['key', 'promptId']});
+        db.createObjectStore('audio', {keyPath: ['key', 'promptId']});
+      }
+      if (e.oldVersion < 2) {
+        db.createObjectStore('quarantine', {autoIncrement: true});
+      }
+    };
+    try {
+      this.db = await request(req);
+    } catch (e) {
+      console.error('Failed to open the prompt store', e);
+    }
+  }
+
+  /** Whether prompts were ever saved under `key`. */
+  isStored(key: string) {
+    return this.written.has(key);
+  }
+
+  /** The prompts saved under `key` in their saved order, or null if there are none. */
+  async load(key: string): Promise<LoadedPrompts | null> {
+    if (!this.db) return this.loadLegacy(key);
+    const tx = this.db.transaction(['decks', 'prompts', 'audio'], 'readonly');
+    const [deck, records, audio] = await Promise.all([
+      request(tx.objectStore('decks').get(key)) as Promise<DeckRecord | undefined>,
+      request(tx.objectStore('prompts').getAll(keyRange(key))) as Promise<PromptRecord[]>,
+      request(tx.objectStore('audio').getAll(keyRange(key))) as Promise<AudioRecord[]>,
+    ]);
+    // Prompts saved by older versions move over with the first save.
+    if (!deck) return this.loadLegacy(key);
+
+    const audioById = new Map(audio.map((a) => [a.promptId, a]));
+    const byId = new Map<string, StoredPrompt>();
+    const written = new Map<string, Written>();
+    for (const {promptId, prompt} of records) {
+      const stored = {...prompt} as unknown as StoredPrompt;
+      const a = audioById.get(promptId);
+      if (a) {
+        stored.data = encode(new Uint8Array(await a.data.arrayBuffer()));
+        stored.waveformData = a.waveformData;
+      }
+      byId.set(promptId, stored);
+      written.set(promptId, {json: JSON.stringify(prompt), data: stored.data});
+    }
+    this.written.set(key, written);
+    const prompts = deck.order.map((promptId) => byId.get(promptId)).filter((p) => p !== undefined);
+    return {prompts, version: deck.version ?? 0};
+  }
+
+  /**
+   * Tells the user the prompts under `key` could not be loaded, and drops
+   * saves under it from then on, so the stored prompts are kept as they are.
+   */
+  loadFailed(key: string, error: unknown) {
+    this.unreadable.add(key);
+    this.pending.delete(key);
+    this.report(`Saved prompts could not be loaded (${(error as Error)?.message ?? error}). Changes will not be saved until the page is reloaded.`);
+  }
+
+  /**
+   * Keeps prompts that could not be loaded in a store of their own, so a
+   * save that drops them from `key` does not lose them, and tells the user.
+   */
+  quarantine(key: string, prompts: QuarantinedPrompt[]) {
+    console.warn(`Set aside ${prompts.length} stored prompt(s) from "${key}"`, prompts);
+    this.report(`${prompts.length} saved prompt${prompts.length === 1 ? '' : 's'} could not be loaded and ${prompts.length === 1 ? 'was' : 'were'} set aside.`);
+    const db = this.db;
+    if (!db) return this.writing;
+    this.writing = this.writing.then(async () => {
+      const tx = db.transaction('quarantine', 'readwrite');
+      const done = transactionDone(tx);
+      const quarantinedAt = new Date().toISOString();
+      for (const {record, reason} of prompts) tx.objectStore('quarantine').add({key, record, reason, quarantinedAt});
+      await done;
+    }).catch((e) => console.error('Failed to quarantine prompts', e));
+    return this.writing;
+  }
+
+  /** Queues the prompts to be saved under `key`. Resolves once they are written. */
+  save(key: string, prompts: StoredPrompt[]) {
+    if (this.unreadable.has(key)) return this.writing;
+    const queued = this.pending.has(key);
+    this.pending.set(key, prompts);
+    if (!queued) this.writing = this.writing.then(() => this.flush(key));
+    return this.writing;
+  }
+
+  /** Deletes everything saved under `key`, including any save still queued. */
+  remove(key: string) {
+    this.pending.delete(key);
+    if (this.unreadable.has(key)) return this.writing;
+    const db = this.db;
+    if (!db || !this.written.has(key)) return this.writing;
+    this.written.delete(key);
+    this.writing = this.writing.then(async () => {
+      const tx = db.transaction(['decks', 'prompts', 'audio'], 'readwrite');
+      const done = transactionDone(tx);
+      tx.objectStore('decks').delete(key);
+      tx.objectStore('prompts').delete(keyRange(key));
+      tx.objectStore('audio').delete(keyRange(key));
+      await done;
+    }).catch((e) => console.error('Failed to delete prompts', e));
+    return this.writing;
+  }
+
+  private async flush(key: string) {
+    const prompts = this.pending.get(key);
+    this.pending.delete(key);
+    if (!prompts) return;
+    if (!this.db) {
+      if (!this.unavailableReported) this.report('Prompts cannot be saved in this browser.');
+      this.unavailableReported = true;
+      return;
+    }
+    try {
+      await this.write(this.db, key, prompts);
+      // The copy older versions kept in localStorage is out of date now.
+      localStorage.removeItem(key);
+    } catch (e) {
+      console.error('Failed to save prompts', e);
+      this.report((e as DOMException)?.name === 'QuotaExceededError'
+        ? 'Storage is full, so the latest changes to the prompts were not saved. Remove some audio prompts to free up space.'
+        : `Failed to save the prompts: ${(e as Error)?.message ?? e}`);
+    }
+  }
+
+  private async write(db: IDBDatabase, key: string, prompts: StoredPrompt[]) {
+    const before = this.written.get(key) ?? new Map<string, Written>();
+    const after = new Map<string, Written>();
+    const tx = db.transaction(['decks', 'prompts', 'audio'], 'readwrite');
+    const done = transactionDone(tx);
+    for (const stored of prompts) {
+      const {promptId} = stored;
+      const {prompt, data, waveformData} = splitAudio(stored);
+      const json = JSON.stringify(prompt);
+      const last = before.get(promptId);
+      if (last?.json !== json) tx.objectStore('prompts').put({key, promptId, prompt} satisfies PromptRecord);
+      if (data !== undefined && last?.data !== data) {
+        tx.objectStore('audio').put({
+          key,
+          promptId,
+          data: new Blob([decode(data)], {type: 'application/octet-stream'}),
+          waveformData: waveformData instanceof Float32Array ? waveformData : new Float32Array(waveformData ?? []),
+        } satisfies AudioRecord);
+      } else if (data === undefined && last?.data !== undefined) {
+        tx.objectStore('audio').delete([key, promptId]);
+      }
+      after.set(promptId, {json, data});
+    }
+    for (const promptId of before.keys()) {
+      if (after.has(promptId)) continue;
+      tx.objectStore('prompts').delete([key, promptId]);
+      tx.objectStore('audio').delete([key, promptId]);
+    }
+    tx.objectStore('decks').put({key, order: prompts.map((p) => p.promptId), version: this.schemaVersion} satisfies DeckRecord);
+    await done;
+    this.written.set(key, after);
+  }
+
+  /** Prompts saved to localStorage by versions before the store, which had no schema version. */
+  private loadLegacy(key: string): LoadedPrompts | null {
+    const stored = localStorage.getItem(key);
+    if (stored === null) return null;
+    this.written.set(key, new Map());
+    let prompts: unknown;
+    try {
+      prompts = JSON.parse(stored);
+    } catch {
+      prompts = null;
+    }
+    if (!Array.isArray(prompts)) {
+      this.quarantine(key, [{record: stored, reason: 'not a list of prompts'}]);
+      return {prompts: [], version: 0};
+    }
+    return {prompts, version: 0};
+  }
+}
+
+export {PromptStore};
+export type {StoredPrompt};
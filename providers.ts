@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  GoogleGenAI,
+  type AudioChunk,
+  type LiveMusicCallbacks,
+  type LiveMusicFilteredPrompt,
+  type LiveMusicServerMessage,
+  type LiveMusicSession,
+} from '@google/genai';
+import {connectMockMusicSession} from './mock-session';
+
+/**
+ * A connected music generation session: prompts, config and transport.
+ * Audio comes back through the callbacks given to `MusicProvider.connect`.
+ */
+type MusicProviderSession = Pick<
+  LiveMusicSession,
+  | 'setWeightedPrompts'
+  | 'setMusicGenerationConfig'
+  | 'play'
+  | 'pause'
+  | 'stop'
+  | 'resetContext'
+  | 'close'
+>;
+
+interface MusicProviderCallbacks {
+  onSetupComplete?: () => void;
+  onFilteredPrompt?: (prompt: LiveMusicFilteredPrompt) => void;
+  /** Called with every chunk of a server message, in stream order. */
+  onAudioChunks: (chunks: AudioChunk[]) => void;
+  onError?: (e: ErrorEvent) => void;
+  onClose?: (e: CloseEvent) => void;
+}
+
+/** Something that can generate a live music stream. */
+interface MusicProvider {
+  readonly id: string;
+  readonly label: string;
+  /** Model id, for providers that take one. */
+  readonly model?: string;
+  connect(callbacks: MusicProviderCallbacks): Promise<MusicProviderSession>;
+}
+
+interface MusicProviderSettings {
+  id: string;
+  model: string;
+}
+
+interface MusicProviderInfo {
+  id: string;
+  label: string;
+  /** Whether the provider lets the user pick a model id. */
+  hasModel: boolean;
+}
+
+const DEFAULT_LYRIA_MODEL = 'lyria-realtime-exp';
+
+const MUSIC_PROVIDERS: MusicProviderInfo[] = [
+  {id: 'lyria', label: 'Lyria RealTime', hasModel: true},
+  {id: 'mock', label: 'Mock session', hasModel: false},
+];
+
+/** Adapts provider callbacks to the `LiveMusicCallbacks` shape of the SDK. */
+function toLiveMusicCallbacks(callbacks: MusicProviderCallbacks): LiveMusicCallbacks {
+  return {
+    onmessage: (e: LiveMusicServerMessage) => {
+      if (e.setupComplete) callbacks.onSetupComplete?.();
+      if (e.filteredPrompt) callbacks.onFilteredPrompt?.(e.filteredPrompt);
+      const chunks = e.serverContent?.audioChunks;
+      if (chunks?.length) callbacks.onAudioChunks(chunks);
+    },
+    onerror: (e: ErrorEvent) => callbacks.onError?.(e),
+    onclose: (e: CloseEvent) => callbacks.onClose?.(e),
+  };
+}
+
+let ai: GoogleGenAI | null = null;
+
+function createLyriaProvider(model: string): MusicProvider {
+  return {
+    id: 'lyria',
+    label: 'Lyria RealTime',
+    model,
+    connect: (callbacks) => {
+      ai ??= new GoogleGenAI({
+        apiKey: process.env.API_KEY,
+        apiVersion: 'v1alpha',
+      });
+      return ai.live.music.connect({model, callbacks: toLiveMusicCallbacks(callbacks)});
+    },
+  };
+}
+
+function createMockProvider(): MusicProvider {
+  return {
+    id: 'mock',
+    label: 'Mock session',
+    connect: (callbacks) => connectMockMusicSession({model: 'mock', callbacks: toLiveMusicCallbacks(callbacks)}),
+  };
+}
+
+function createMusicProvider(settings: MusicProviderSettings): MusicProvider {
+  switch (settings.id) {
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createLyriaProvider(settings.model || DEFAULT_LYRIA_MODEL);
+  }
+}
+
+/**
+ * Picks the provider to start with: a `?backend=` URL parameter wins over the
+ * user's saved choice, which wins over the MUSIC_BACKEND the app was built with.
+ */
+function getInitialProviderSettings(): MusicProviderSettings {
+  let saved: Partial<MusicProviderSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem('musicProvider') ?? '{}');
+  } catch (e) {
+    console.error('Failed to parse stored music provider', e);
+  }
+  let id =
+    new URLSearchParams(window.location.search).get('backend') ??
+    saved.id ??
+    process.env.MUSIC_BACKEND ??
+    'lyria';
+  // Earlier versions offered the mock without its filter as 'procedural'.
+  if (id === 'procedural') id = 'mock';
+  return {
+    id: MUSIC_PROVIDERS.some((p) => p.id === id) ? id : 'lyria',
+    model: saved.model || DEFAULT_LYRIA_MODEL,
+  };
+}
+
+function setStoredProviderSettings(settings: MusicProviderSettings) {
+  localStorage.setItem('musicProvider', JSON.stringify(settings));
+}
+
+export {
+  createMusicProvider,
+  DEFAULT_LYRIA_MODEL,
+  getInitialProviderSettings,
+  MUSIC_PROVIDERS,
+  setStoredProviderSettings,
+  toLiveMusicCallbacks,
+};
+export type {
+  MusicProvider,
+  MusicProviderCallbacks,
+  MusicProviderInfo,
+  MusicProviderSession,
+  MusicProviderSettings,
+};
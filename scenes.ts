@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {DeckConfig} from './deck';
+import type {PromptGroup} from './groups';
+
+/** Every Master FX value and on/off flag. */
+interface MasterFx {
+  lowPassFreq: number;
+  highPassFreq: number;
+  reverbMix: number;
+  delayTime: number;
+  delayFeedback: number;
+  delayMix: number;
+  distortionAmount: number;
+  phaserRate: number;
+  phaserMix: number;
+  bitDepth: number;
+  sampleRateReduction: number;
+  vinylCrackle: number;
+  isLpfOn: boolean;
+  isHpfOn: boolean;
+  isReverbOn: boolean;
+  isDelayOn: boolean;
+  isDistortionOn: boolean;
+  isPhaserOn: boolean;
+  isBitCrusherOn: boolean;
+  isVinylSimOn: boolean;
+}
+
+/** A snapshot of the performance on one deck. `P` is the stored prompt shape. */
+interface Scene<P = unknown> {
+  name: string;
+  savedAt: string; // ISO date
+  config: DeckConfig;
+  prompts: P[];
+  groups: PromptGroup[];
+  fx: MasterFx;
+  kaossProgram: string;
+}
+
+/**
+ * A scene as kept in localStorage. Its prompts, audio included, are too big
+ * for it and go to the prompt store under `sceneStorageKey`; only scenes
+ * saved by earlier versions still carry them here.
+ */
+type StoredScene<P = unknown> = Omit<Scene<P>, 'prompts'> & {prompts?: P[]};
+
+const SCENE_SLOTS = 8;
+
+/** The prompt store key the prompts of the scene in `slot` are saved under. */
+function sceneStorageKey(slot: number) {
+  return `scene-${slot}`;
+}
+
+const MASTER_FX_VALUES = [
+  'lowPassFreq', 'highPassFreq', 'reverbMix', 'delayTime', 'delayFeedback', 'delayMix',
+  'distortionAmount', 'phaserRate', 'phaserMix', 'bitDepth', 'sampleRateReduction', 'vinylCrackle',
+] as const;
+
+const MASTER_FX_FLAGS = [
+  'isLpfOn', 'isHpfOn', 'isReverbOn', 'isDelayOn', 'isDistortionOn', 'isPhaserOn', 'isBitCrusherOn', 'isVinylSimOn',
+] as const;
+
+const MASTER_FX_KEYS = [...MASTER_FX_VALUES, ...MASTER_FX_FLAGS];
+
+/**
+ * The FX part way (`t`, 0-1) from one scene to another. Filter cutoffs move
+ * on a log scale. Effects switch on at the start and off at the end, so none
+ * cuts out halfway.
+ */
+function interpolateFx(from: MasterFx, to: MasterFx, t: number): MasterFx {
+  const fx = {...to};
+  for (const key of MASTER_FX_VALUES) {
+    const a = from[key];
+    const b = to[key];
+    fx[key] = key.endsWith('Freq') && a > 0 && b > 0 ? a * Math.pow(b / a, t) : a + (b - a) * t;
+  }
+  if (t < 1) {
+    for (const key of MASTER_FX_FLAGS) fx[key] = from[key] || to[key];
+  }
+  return fx;
+}
+
+function getStoredScenes<P>(): (StoredScene<P> | null)[] {
+  let scenes: (StoredScene<P> | null)[] = [];
+  try {
+    scenes = JSON.parse(localStorage.getItem('scenes') ?? '[]') as (StoredScene<P> | null)[];
+  } catch (e) {
+    console.error('Failed to parse stored scenes', e);
+  }
+  return Array.from({length: SCENE_SLOTS}, (_, i) => scenes[i] ?? null);
+}
+
+/** Saves the scenes without their prompts. Throws if storage is full. */
+function setStoredScenes<P>(scenes: (Scene<P> | null)[]) {
+  const stored: (StoredScene<P> | null)[] = scenes.map((scene) => scene && {...scene, prompts: undefined});
+  localStorage.setItem('scenes', JSON.stringify(stored));
+}
+
+export {getStoredScenes, interpolateFx, MASTER_FX_KEYS, SCENE_SLOTS, sceneStorageKey, setStoredScenes};
+export type {MasterFx, Scene, StoredScene};
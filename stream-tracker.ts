@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+interface StreamStats {
+  chunksReceived: number;
+  samplesReceived: number;
+  samplesScheduled: number;
+  /** Samples received but never scheduled, e.g. while paused. */
+  samplesDiscarded: number;
+  /** Chunks identical to a recent one. They are still played: silence or a loop repeats for real. */
+  duplicates: number;
+  gaps: number;
+  /** Total silence inserted by gaps, in seconds. */
+  gapTime: number;
+}
+
+interface ReceivedChunk {
+  /** Position of the chunk in the stream since the last reset, from 0. */
+  sequence: number;
+  /** Whether the chunk repeats a recent one; for diagnostics only. */
+  duplicate: boolean;
+}
+
+// How many recent chunk fingerprints to compare new chunks against.
+const DUPLICATE_WINDOW = 16;
+
+/** An FNV-1a fingerprint over the length and every character. */
+function fingerprint(data: string) {
+  let hash = 0x811c9dc5 ^ data.length;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${data.length}:${hash >>> 0}`;
+}
+
+/**
+ * Keeps a running account of audio chunks received from the session versus
+ * samples handed to the scheduler, so gaps and repeated chunks can be
+ * reported. It never decides what gets played.
+ */
+class StreamTracker {
+  private stats: StreamStats = StreamTracker.emptyStats();
+  private recent: string[] = [];
+  private sequence = 0;
+
+  private static emptyStats(): StreamStats {
+    return {
+      chunksReceived: 0,
+      samplesReceived: 0,
+      samplesScheduled: 0,
+      samplesDiscarded: 0,
+      duplicates: 0,
+      gaps: 0,
+      gapTime: 0,
+    };
+  }
+
+  get snapshot(): Readonly<StreamStats> {
+    return {...this.stats};
+  }
+
+  /** Samples received that are neither scheduled nor knowingly discarded. */
+  get unaccountedSamples() {
+    const {samplesReceived, samplesScheduled, samplesDiscarded} = this.stats;
+    return samplesReceived - samplesScheduled - samplesDiscarded;
+  }
+
+  receive(data: string, samples: number): ReceivedChunk {
+    const print = fingerprint(data);
+    const duplicate = this.recent.includes(print);
+    this.recent.push(print);
+    if (this.recent.length > DUPLICATE_WINDOW) this.recent.shift();
+
+    this.stats.chunksReceived++;
+    this.stats.samplesReceived += samples;
+    if (duplicate) this.stats.duplicates++;
+    return {sequence: this.sequence++, duplicate};
+  }
+
+  scheduled(samples: number) {
+    this.stats.samplesScheduled += samples;
+  }
+
+  discarded(samples: number) {
+    this.stats.samplesDiscarded += samples;
+  }
+
+  gap(seconds: number) {
+    this.stats.gaps++;
+    this.stats.gapTime += seconds;
+  }
+
+  /** Starts a new stream; totals are kept, the sequence starts over. */
+  restart() {
+    this.sequence = 0;
+    this.recent = [];
+  }
+
+  reset() {
+    this.restart();
+    this.stats = StreamTracker.emptyStats();
+  }
+
+  describe() {
+    const s = this.stats;
+    return `${s.chunksReceived} chunks, ${s.samplesReceived} samples received, ` +
+      `${s.samplesScheduled} scheduled, ${s.samplesDiscarded} discarded, ` +
+      `${s.duplicates} duplicates, ${s.gaps} gaps (${s.gapTime.toFixed(2)}s)`;
+  }
+}
+
+export {StreamTracker};
+export type {ReceivedChunk, StreamStats};
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** The role a prompt plays in the mix. */
+type InstrumentTag = 'drums' | 'bass' | 'melody' | 'pads' | 'vocals' | 'fx';
+
+// Whole words only, so "rap" does not match "trap" nor "beat" "upbeat".
+const INSTRUMENT_TAGS: {id: InstrumentTag; label: string; pattern: RegExp}[] = [
+  {id: 'drums', label: 'DR', pattern: /\b(?:drums?|kicks?|snares?|hi-?hats?|cymbals?|percussion|percussive|beats?|breaks?|breakbeats?|808s?|909s?|grooves?|claps?|congas?|bongos?|tablas?)\b/},
+  {id: 'bass', label: 'BA', pattern: /\b(?:bass|basses|basslines?|sub|808s?|low end|reese)\b/},
+  {id: 'melody', label: 'ME', pattern: /\b(?:melody|melodies|melodic|leads?|riffs?|guitars?|piano|sitar|flutes?|violins?|trumpets?|sax|saxophone|kalimba|marimba|bells?|arps?|arpeggios?|arpeggiated|synths?|synthesizers?|keys|organs?|harps?|koto|shamisen|hooks?)\b/},
+  {id: 'pads', label: 'PA', pattern: /\b(?:pads?|ambient|drones?|strings?|textures?|atmospheres?|atmospheric|chords?|wash|washy|choirs?)\b/},
+  {id: 'vocals', label: 'VO', pattern: /\b(?:vocals?|voices?|sing|singing|singers?|choirs?|chants?|chanting|rap|rapping|rappers?|acapella|a cappella)\b/},
+  {id: 'fx', label: 'FX', pattern: /\b(?:fx|effects?|risers?|sweeps?|noise|glitch|glitches|glitchy|scratch|scratches|scratching|vinyl|tape|impacts?|whoosh|whooshes|foley)\b/},
+];
+
+/** Guesses a prompt's instrument roles from its text. */
+function suggestTags(text: string): InstrumentTag[] {
+  const lower = text.toLowerCase();
+  return INSTRUMENT_TAGS.filter((t) => t.pattern.test(lower)).map((t) => t.id);
+}
+
+function isInstrumentTag(tag: string): tag is InstrumentTag {
+  return INSTRUMENT_TAGS.some((t) => t.id === tag);
+}
+
+export {INSTRUMENT_TAGS, isInstrumentTag, suggestTags};
+export type {InstrumentTag};
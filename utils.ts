@@ -135,4 +135,49 @@ async function decodeAudioData(
   return audioBuffer;
 }
 
-export {decode, decodeAudioData, encode, resampleAndEncodeAudio};
\ No newline at end of file
+/** Saves a blob to disk through a temporary download link. */
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  a.remove();
+}
+
+/** A filesystem-friendly timestamp like 2024-01-31_12-00-00. */
+function fileTimestamp(date = new Date()) {
+  return date.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
+}
+
+/**
+ * Throttles a callback to be called at most once per `delay` milliseconds.
+ * Calls in between are folded into one made when the delay is up, with the
+ * latest arguments, so the last call is never lost.
+ */
+function throttle(func: (...args: unknown[]) => void, delay: number) {
+  let lastCall = 0;
+  let trailing: ReturnType<typeof setTimeout> | null = null;
+  let trailingArgs: unknown[] = [];
+  const call = (args: unknown[]) => {
+    lastCall = Date.now();
+    func(...args);
+  };
+  return (...args: unknown[]) => {
+    const wait = delay - (Date.now() - lastCall);
+    if (wait <= 0 && trailing === null) {
+      call(args);
+      return;
+    }
+    trailingArgs = args;
+    trailing ??= setTimeout(() => {
+      trailing = null;
+      call(trailingArgs);
+    }, Math.max(0, wait));
+  };
+}
+
+export {decode, decodeAudioData, downloadBlob, encode, fileTimestamp, resampleAndEncodeAudio, throttle};
\ No newline at end of file
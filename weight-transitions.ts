@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+type TransitionUnit = 'bars' | 'seconds';
+
+/** A prompt weight gliding from one value to another. */
+interface WeightTransition {
+  from: number;
+  to: number;
+  startTime: number; // performance.now() at the start
+  duration: number; // ms
+}
+
+// Steps are spaced wider than the 200 ms prompt throttle so none is dropped.
+const TRANSITION_TICK_MS = 250;
+
+/** Length of a transition in ms. Assumes 4/4, so a bar is four beats. */
+function transitionDuration(length: number, unit: TransitionUnit, bpm: number) {
+  const seconds = unit === 'bars' ? length * 4 * 60 / bpm : length;
+  return Math.max(0, seconds * 1000);
+}
+
+/** The weight a transition has reached at `now`, eased at both ends. */
+function transitionWeight(transition: WeightTransition, now: number) {
+  const {from, to, startTime, duration} = transition;
+  const t = duration > 0 ? Math.max(0, Math.min(1, (now - startTime) / duration)) : 1;
+  const eased = t * t * (3 - 2 * t);
+  return {weight: from + (to - from) * eased, done: t >= 1};
+}
+
+export {TRANSITION_TICK_MS, transitionDuration, transitionWeight};
+export type {TransitionUnit, WeightTransition};